@@ -1,47 +1,476 @@
 const DEBUG = false
 
-type MemoizeCacheType<T> = { key: unknown[]; value: T }[]
+type MemoizeCacheEntryType<T> = {
+  key: unknown[]
+  value: T
+  expiresAt?: number // Timestamp (as returned by the `clock` option) after which the entry is stale.
+}
+
+type MemoizeCacheType<T> = MemoizeCacheEntryType<T>[]
+
+/**
+ * Statistics about the usage of a memoized function's cache, as returned by its `getStats()` method.
+ */
+export type MemoizeStatsType = {
+  hits: number
+  misses: number
+  hitRatio: number // Between 0 and 1 (0 when the memoized function has not been called yet).
+  size: number // Current number of cached entries.
+  evictions: number // Entries removed automatically (e.g. evicted or expired), not by `clear…()`.
+  computeTime: number // Total time (in ms) spent inside the original function.
+  bytes?: number // Approximate size of the cached entries, only when sizes are tracked (see `maxBytes`).
+}
 
-type MemoizeUtilsCommonType<T> = {
+type MemoizeUtilsCommonType<T, A extends unknown[]> = {
   clearAll: () => void
+  clearWhere: (predicate: (args: A, value: T) => boolean) => void
+  invalidateTag: (tag: MemoizeTagType) => void
+  exportCache: () => string
+  importCache: (snapshot: string, options?: DeserializeOptionsType) => void
   getCache: () => MemoizeCacheType<T>
+  getStats: () => MemoizeStatsType
+  resetStats: () => void
+}
+
+/**
+ * A registry of named memoized functions (see the `registry` option), which can be managed together and
+ * share a budget of entries and (approximate) bytes.
+ */
+export type MemoizeRegistryType = {
+  get: (
+    name: string,
+  ) => (MemoizeFnType<unknown> & MemoizeUtilsType<unknown>) | undefined
+  names: () => string[]
+  unregister: (name: string) => void
+  clearAll: () => void
+  getStats: () => MemoizeRegistryStatsType
+}
+
+// Aggregate statistics of all memoized functions in a registry, along with the statistics of each one.
+type MemoizeRegistryStatsType = MemoizeStatsType & {
+  bytes: number // Approximate size of all entries, only calculated under a `maxBytes` budget (else 0).
+  functions: Record<string, MemoizeStatsType>
+}
+
+// The budget shared by all memoized functions in a registry.
+type MemoizeRegistryOptionsType = {
+  maxEntries?: number
+  maxBytes?: number // Approximate size of the entries (both arguments and values).
+}
+
+// What entries can be tagged with (see the `tags` option), so they can be invalidated together.
+type MemoizeTagType = string | number | symbol
+
+// Why an entry has been removed from the cache (except for the garbage-collected ones, see `onCollect`).
+export type RemovalReasonType =
+  'cleared' | 'evicted' | 'expired' | 'stale' | 'rejected' | 'aborted'
+
+/**
+ * A piece of (mutable) state which memoized functions can depend on: whenever a memoized function reads
+ * an atom while calculating a value, the cached entry becomes stale as soon as the atom changes.
+ *
+ * @template V - The type of the atom's value.
+ */
+export type AtomType<V> = {
+  get: () => V
+  set: (value: V) => void
+  update: (updater: (value: V) => V) => void
 }
 
-type MemoizeFnType<T> = (...args: unknown[]) => T
+type MemoizeFnType<T, A extends unknown[] = unknown[]> = (...args: A) => T
 
-type comparisonFnType<T> = (
-  leftArgs: Parameters<MemoizeFnType<T>>,
-  rightArgs: Parameters<MemoizeFnType<T>>,
+type comparisonFnType<A extends unknown[] = unknown[]> = (
+  leftArgs: A,
+  rightArgs: A,
 ) => boolean
 
 type EmptyObjectType = Record<string | number | symbol, never>
 
+// The cached entry whose key is the nearest to some arguments, as returned by `explainMiss()`.
+type MemoizeNearestEntryType<T> = MemoizeCacheEntryType<T> & {
+  mismatches: MismatchType[] // Why the key differs from the arguments (none when they match).
+}
+
+// The `clearEntry()` and `explainMiss()` methods are meaningful only for functions with at least 1 (possibly
+// optional) parameter.
+type MemoizeUtilsType<T, A extends unknown[] = unknown[]> = (A extends []
+  ? EmptyObjectType
+  : {
+      clearEntry: (...args: A) => void
+      explainMiss: (...args: A) => MemoizeNearestEntryType<T> | undefined
+    }) &
+  MemoizeUtilsCommonType<T, A>
+
+type MemoizedFnType<F extends (...args: never[]) => unknown> = MemoizeFnType<
+  ReturnType<F>,
+  Parameters<F>
+> &
+  MemoizeUtilsType<ReturnType<F>, Parameters<F>>
+
+// What `memoizedMember()` returns for a memoized method (or getter, which takes no arguments at all).
+type MemoizedMemberType<V> = V extends (...args: never[]) => unknown
+  ? MemoizedFnType<V>
+  : MemoizedFnType<() => V>
+
 /**
- * A function that compares two values. Its default behavior is to compare each value individually with
- * the standand `===` JS/TS's strict-equals operator, which basically deals with all primitive types, but
- * the function also takes care of collection-like structures such as objects, maps (with all kinds of keys)
- * and arrays of any depth. And you can freely and safely mix them all. Classes (in fact, class instances),
- * regular expressions, dates and even functions are covered, too. Circular data structures are also
- * supported (so there is no risk of the dreaded "Stack Overflow" error).
+ * An eviction policy decides which entry must leave a bounded cache (see the `maxSize` option) when
+ * room is needed for a new one. The memoized function notifies the policy about every insertion, hit
+ * and removal, so it can keep its own bookkeeping, and asks for a victim only when the cache is full.
  *
- * @template T - The left and right values type, such that incompatible types are caught at compile time
- * when using TypeScript.
- * @param {T} left - The left value.
- * @param {T} right - The right value.
- * @returns {boolean} - Whether the 2 values are considered the same (i.e. are equal).
+ * @template T - The return type of the memoized function.
  */
+export type EvictionPolicyType<T> = {
+  onSet?: (entry: MemoizeCacheEntryType<T>) => void
+  onHit?: (entry: MemoizeCacheEntryType<T>) => void
+  onDelete?: (entry: MemoizeCacheEntryType<T>) => void
+  onClear?: () => void
+  selectVictim: (
+    cache: MemoizeCacheType<T>,
+  ) => MemoizeCacheEntryType<T> | undefined
+}
 
-export const compareValues = <T>(
-  left: T,
-  right: T,
-  alreadyCompared: { left: unknown; right: unknown }[] = [],
+type EvictionPolicyNameType = 'lru' | 'lfu' | 'fifo'
+
+/**
+ * A cache store holds the entries of a memoized function's cache. Every entry may come along with the
+ * hash of its key (see the `hashFn` option), in which case it is also passed to `get()`, so the store can
+ * narrow down its search. Entries must be compared with the given `compare()` function, though.
+ *
+ * @template T - The return type of the memoized function.
+ */
+export type CacheStoreType<T> = {
+  get: (
+    key: unknown[],
+    hash: number | string | symbol | undefined,
+    compare: comparisonFnType,
+  ) => MemoizeCacheEntryType<T> | undefined
+  set: (
+    entry: MemoizeCacheEntryType<T>,
+    hash: number | string | symbol | undefined,
+  ) => void
+  delete: (entry: MemoizeCacheEntryType<T>) => boolean // Whether the entry was found (and deleted).
+  clear: () => void
+  entries: () => MemoizeCacheType<T> // Newest entries first.
+  size: () => number
+}
+
+// Functions returning `unknown` are given the benefit of the doubt (i.e. taken as returning `U`), since that
+// is also what TS checks the options against, before inferring the type of a function expression (as
+// opposed to an arrow function).
+type UnknownAsType<T, U> = unknown extends T ? U : T
+
+// The async-related options only make sense (and are only accepted) for functions returning promises.
+type MemoizeAsyncOptionsType<T, A extends unknown[]> =
+  T extends PromiseLike<unknown>
+    ? {
+        async?: boolean
+        cacheRejections?: boolean // The same as `cacheErrors: true`, for rejections only.
+        staleWhileRevalidate?: number // How long expired values are still served, while being refreshed.
+        onRefreshError?: (args: A, error: unknown) => void
+        abortable?: boolean // Whether the last argument is an `AbortSignal` (not part of the cache key).
+      }
+    : {
+        async?: never
+        cacheRejections?: never
+        staleWhileRevalidate?: never
+        onRefreshError?: never
+        abortable?: never
+      }
+
+// Replaying only makes sense (and is only accepted) for functions returning iterators, e.g. generators.
+type MemoizeReplayOptionsType<T> = T extends
+  Iterator<unknown> | AsyncIterator<unknown>
+  ? { replay?: boolean }
+  : { replay?: never }
+
+// How cache entries are found: either by comparing the arguments (possibly narrowed down by their hashes),
+// or else by a key derived from them, in which case neither of the other options is accepted.
+type MemoizeKeyOptionsType<A extends unknown[]> =
+  | {
+      comparisonFn?: comparisonFnType<A>
+      hashFn?: (args: A) => number | string
+      keyFn?: never
+    }
+  | {
+      comparisonFn?: never
+      hashFn?: never
+      keyFn?: (args: A) => number | string | symbol
+    }
+
+// Which parts of the cache entries are held through weak references (`weak: true` stands for `args` only).
+type MemoizeWeakOptionsType<T> = {
+  args?: boolean
+  values?: boolean | ((value: T) => boolean) // Possibly only the large ones.
+}
+
+/**
+ * The options accepted by `memoize()`, as an alternative to a bare parameter-comparison function.
+ *
+ * @template T - The return type of the memoized function.
+ * @template A - The tuple of the memoized function's parameters.
+ */
+export type MemoizeOptionsType<T, A extends unknown[]> = {
+  maxSize?: number
+  evictionPolicy?: EvictionPolicyNameType | EvictionPolicyType<T>
+  store?: CacheStoreType<T>
+  weak?: boolean | MemoizeWeakOptionsType<T>
+  ttl?: number | ((args: A, value: T) => number)
+  cacheErrors?: boolean | ((args: A, error: unknown) => boolean) // Possibly only the expected ones.
+  errorTtl?: number // The time-to-live of cached errors (and rejections), if different from `ttl`.
+  maxBytes?: number // Approximate size of the cached entries (both arguments and values).
+  sizeOf?: (args: A, value: T) => number // Overrides `estimateSize()`.
+  tags?: (args: A, value: T) => MemoizeTagType[]
+  cloneArgs?: boolean // Caches snapshots of the arguments (see `cloneValue()`), instead of the arguments themselves.
+  protectValues?: 'freeze' | 'clone' // Deeply freezes the cached values, or else hands out clones of them.
+  detectMutations?: boolean // Checks on every call that no cached arguments have been mutated (for development).
+  deps?: (args: A) => unknown // A version token (or tuple) of external state, checked on every call.
+  registry?: MemoizeRegistryType
+  name?: string // The name in the registry (defaults to `fn.name`).
+  clock?: () => number
+  onHit?: (args: A, value: T) => void
+  onMiss?: (args: A, value: T) => void // Called once the value has been calculated.
+  onSet?: (args: A, value: T) => void
+  onEvict?: (args: A, value: T, reason: RemovalReasonType) => void
+  // Entries garbage-collected in weak mode have their collected arguments (or value) `undefined`.
+  onCollect?: (
+    args: { [K in keyof A]: A[K] | undefined },
+    value: T | undefined,
+  ) => void
+  onClear?: () => void
+} & MemoizeKeyOptionsType<A> &
+  MemoizeAsyncOptionsType<UnknownAsType<T, PromiseLike<unknown>>, A> &
+  MemoizeReplayOptionsType<UnknownAsType<T, Iterator<unknown>>>
+
+// The bytes of an `ArrayBuffer` or of a view over one (e.g. a `DataView`).
+const toBytes = (value: ArrayBuffer | ArrayBufferView) =>
+  ArrayBuffer.isView(value)
+    ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    : new Uint8Array(value)
+
+// Boxed primitives are the ones created by `new Number(1)`, `Object('abc')`, `Object(1n)` and so on.
+const isBoxedPrimitive = (value: object): boolean =>
+  value instanceof Number ||
+  value instanceof String ||
+  value instanceof Boolean ||
+  value instanceof BigInt ||
+  value instanceof Symbol
+
+// Only enumerable symbol keys are taken into account, just like `Object.keys()` does for string keys.
+const getSymbolKeys = (value: object) =>
+  Object.getOwnPropertySymbols(value).filter(symbol =>
+    Object.prototype.propertyIsEnumerable.call(value, symbol),
+  )
+
+/**
+ * The options accepted by `createComparator()`, each one toggling a rule of `compareValues()`. Their
+ * defaults (see `DEFAULT_COMPARATOR_OPTIONS`) reproduce `compareValues()` itself, unless in strict mode.
+ */
+export type ComparatorOptionsType = {
+  mapKeyOrder?: boolean // Whether maps must have their keys in the same order.
+  objectKeyOrder?: boolean // Whether objects must have their keys in the same order.
+  classes?: 'name' | 'prototype' // Whether class instances are matched by constructor name or by prototype.
+  functions?: 'source' | 'identity' // Whether functions are compared by source code or by identity.
+  dates?: 'string' | 'time' // Whether dates are compared by string representation (no ms) or by timestamp.
+  arrayLikes?: boolean // Whether arrays match objects with array behavior (e.g. `{ 0: 10, 1: 20 }`).
+  maxDepth?: number // Nesting levels compared deeply. Deeper values only match when identical (`===`).
+  // Changes the defaults of all the options above to their strictest values, and also tells `-0` from `0`.
+  strict?: boolean
+}
+
+type ComparatorRulesType = Required<ComparatorOptionsType>
+
+const DEFAULT_COMPARATOR_OPTIONS: ComparatorRulesType = {
+  mapKeyOrder: true,
+  objectKeyOrder: false,
+  classes: 'name',
+  functions: 'source',
+  dates: 'string',
+  arrayLikes: true,
+  maxDepth: Infinity,
+  strict: false,
+}
+
+const STRICT_COMPARATOR_OPTIONS: ComparatorRulesType = {
+  mapKeyOrder: true,
+  objectKeyOrder: true,
+  classes: 'prototype',
+  functions: 'identity',
+  dates: 'time',
+  arrayLikes: false,
+  maxDepth: Infinity,
+  strict: true,
+}
+
+// The rules followed by the comparators created by `createComparator()`, which are also known to be
+// consistent with `hashValue()` (so `memoize()` can still rely on it).
+const comparatorRules = new WeakMap<comparisonFnType, ComparatorRulesType>()
+
+// Why 2 values differ, as reported by `explainDifference()`.
+export type MismatchReasonType =
+  | 'type differs' // Different `typeof` types (or `null` versus an object).
+  | 'constructor differs' // Different classes (see the `classes` option of `createComparator()`).
+  | 'length differs' // Arrays (typed or not) or array buffers of different lengths.
+  | 'size differs' // Maps or sets of different sizes.
+  | 'missing key' // A key (or map key, or set item) of the left value not found in the right one.
+  | 'extra key' // A key of the right value not found in the left one.
+  | 'key order differs' // Same keys, in different orders (only when the order matters).
+  | 'value differs' // Different primitives, functions, dates, regular expressions, URLs or bytes.
+  | 'too deep' // Different values nested deeper than the `maxDepth` option of `createComparator()`.
+
+export type MismatchType = {
+  path: string // Where the values differ, e.g. `[2].profits[1]` (empty for the compared values themselves).
+  reason: MismatchReasonType
+  left: unknown
+  right: unknown
+}
+
+// A step of the path leading to a nested value: an array index, an object key, or any other (lazily built,
+// since only needed for explaining differences) description, e.g. `<Map key {x:0}>`.
+type PathSegmentType = number | string | symbol | (() => string)
+
+type ComparisonContextType = {
+  rules: ComparatorRulesType
+  mismatches?: MismatchType[] // Only when explaining differences.
+  all?: boolean // Whether every mismatch is wanted, instead of just the first one.
+}
+
+const IDENTIFIER_REGEXP = /^[A-Za-z_$][\w$]*$/
+const DESCRIPTION_MAX_LENGTH = 40
+
+// A short, single-line description of a value, for mismatch paths.
+const describeValue = (value: unknown, depth = 0): string => {
+  if (typeof value === 'string') return JSON.stringify(value)
+  if (typeof value === 'bigint') return `${value}n`
+  if (typeof value !== 'object' && typeof value !== 'function')
+    return Object.is(value, -0) ? '-0' : String(value)
+  if (typeof value === 'function') return `ƒ ${value.name || 'anonymous'}`
+  if (value === null) return 'null'
+  if (
+    value instanceof Date ||
+    value instanceof RegExp ||
+    (typeof URL !== 'undefined' && value instanceof URL)
+  )
+    return `${value.constructor.name}(${value.toString()})`
+
+  const describeItems = (items: string[]) => {
+    const description = items.join(',')
+
+    return description.length > DESCRIPTION_MAX_LENGTH
+      ? `${description.slice(0, DESCRIPTION_MAX_LENGTH)}…`
+      : description
+  }
+
+  if (depth > 1) return Array.isArray(value) ? '[…]' : '{…}'
+  if (Array.isArray(value))
+    return `[${describeItems(value.map(item => describeValue(item, depth + 1)))}]`
+  if (value instanceof Map || value instanceof Set)
+    return `${value.constructor.name}(${value.size})`
+
+  const className = value.constructor?.name
+  const prefix = className && className !== 'Object' ? `${className} ` : ''
+
+  return `${prefix}{${describeItems(
+    Object.entries(value).map(
+      ([key, item]) => `${key}:${describeValue(item, depth + 1)}`,
+    ),
+  )}}`
+}
+
+const formatPath = (path: PathSegmentType[]) =>
+  path
+    .map(segment =>
+      typeof segment === 'number'
+        ? `[${segment}]`
+        : typeof segment === 'symbol'
+          ? `[${segment.toString()}]`
+          : typeof segment === 'function'
+            ? segment()
+            : IDENTIFIER_REGEXP.test(segment)
+              ? `.${segment}`
+              : `[${JSON.stringify(segment)}]`,
+    )
+    .join('')
+
+// Like `Array.prototype.every()`, but going through all items when every mismatch is wanted.
+const everyItem = <I>(
+  context: ComparisonContextType,
+  items: I[],
+  predicate: (item: I, i: number) => boolean,
+) =>
+  context.mismatches && context.all
+    ? items.map(predicate).every(Boolean)
+    : items.every(predicate)
+
+// The engine behind `compareValues()`, `explainDifference()` and the comparators created by
+// `createComparator()`. Values are `depth` levels deep inside the ones originally compared, at `path`.
+const compareWithRules = (
+  left: unknown,
+  right: unknown,
+  context: ComparisonContextType,
+  alreadyCompared: { left: unknown; right: unknown }[],
+  depth: number,
+  path: PathSegmentType[],
 ): boolean => {
-  if (left === right) return true // Are exactly the same values?
+  const { rules, mismatches } = context
+  const explainAll = Boolean(mismatches && context.all)
+
+  // Records why the values differ (when explaining differences), at the given nested path.
+  const mismatch = (
+    reason: MismatchReasonType,
+    segments: PathSegmentType[] = [],
+    [leftMismatch, rightMismatch]: [unknown, unknown] = [left, right],
+  ): false => {
+    mismatches?.push({
+      path: formatPath([...path, ...segments]),
+      reason,
+      left: leftMismatch,
+      right: rightMismatch,
+    })
+
+    return false
+  }
+
+  // Compares nested values, one level deeper.
+  const compareNested = (
+    leftNested: unknown,
+    rightNested: unknown,
+    segment: PathSegmentType,
+    nestedAlreadyCompared = alreadyCompared,
+  ) =>
+    compareWithRules(
+      leftNested,
+      rightNested,
+      context,
+      nestedAlreadyCompared,
+      depth + 1,
+      mismatches ? [...path, segment] : path,
+    )
+
+  // Tries out a comparison whose failure is not a mismatch by itself (e.g. looking for a set item),
+  // so it must not leave anything behind in `alreadyCompared` either.
+  const attemptNested = (leftNested: unknown, rightNested: unknown) =>
+    compareWithRules(
+      leftNested,
+      rightNested,
+      { rules },
+      [...alreadyCompared],
+      depth + 1,
+      path,
+    )
+
+  // Are exactly the same values? In strict mode `-0` and `0` are told apart, though.
+  if (left === right)
+    return !rules.strict || Object.is(left, right) || mismatch('value differs')
+
+  if (Number.isNaN(left) && Number.isNaN(right)) return true // Are both `NaN`?
 
   // Do they have different types (as returned by the `typeof` operator)? In general this is flagged by TS
   // at compile-time (in particular when the type parameter `T` is automatically inferred by TS), but still
   // needed when `T` represents a union or when running in JS.
-  if (typeof left !== typeof right) return false
+  if (typeof left !== typeof right) return mismatch('type differs')
+
+  // Too deep to be compared (and not identical)?
+  if (depth >= rules.maxDepth) return mismatch('too deep')
 
   if (
     alreadyCompared.find(
@@ -56,256 +485,2846 @@ export const compareValues = <T>(
 
   // Are both values arrays?
   if (Array.isArray(left) && Array.isArray(right)) {
-    if (left.length !== right.length) return false // Arrays have different lengths?
+    if (left.length !== right.length) return mismatch('length differs') // Arrays have different lengths?
 
     // Do all array items match?
-    return left.every((leftValueItem, i) =>
-      compareValues(leftValueItem, right[i], alreadyCompared),
+    return everyItem(context, left, (leftValueItem, i) =>
+      compareNested(leftValueItem, right[i], i),
     )
   }
 
-  // Are both values functions?
+  // Are both values functions? Compare their string representations (unless identity is required).
   if (typeof left === 'function' && typeof right === 'function')
-    return left.toString() === right.toString() // Compare their string representations.
+    return (
+      (rules.functions === 'source' && left.toString() === right.toString()) ||
+      mismatch('value differs')
+    )
 
   // Are both values objects? PS: one (and only one) of them could possibly be `null`.
   if (typeof left === 'object' && typeof right === 'object') {
-    if (left === null || right === null) return false // Is either value `null`?
+    if (left === null || right === null) return mismatch('type differs') // Is either value `null`?
 
     // Treat a very special case where one of the values is an array (e.g. `[10, 20, 30]`) and the other
     // is an object with array behavior (e.g. `{ 0: 10, 1: 20, 2: 20 }`). It may happen on either side.
     const arrayAndObjectWithArrayBehavior =
-      (Array.isArray(left) &&
+      rules.arrayLikes &&
+      ((Array.isArray(left) &&
         right.constructor.name === 'Object' &&
         Object.keys(right).every(key => !Object.is(Number(key), NaN))) ||
-      (Array.isArray(right) &&
-        left.constructor.name === 'Object' &&
-        Object.keys(left).every(key => !Object.is(Number(key), NaN)))
+        (Array.isArray(right) &&
+          left.constructor.name === 'Object' &&
+          Object.keys(left).every(key => !Object.is(Number(key), NaN))))
+
+    // Only needed when explaining every mismatch, so the comparison goes on after the first one.
+    let sameSoFar = true
 
     if (!arrayAndObjectWithArrayBehavior) {
-      // Are objects of same type (this time based on their constructors)?
-      if (left.constructor.name !== right.constructor.name) return false
+      // Are objects of same type (this time based on their constructors, or else on their prototypes)?
+      if (
+        rules.classes === 'prototype'
+          ? Object.getPrototypeOf(left) !== Object.getPrototypeOf(right)
+          : left.constructor.name !== right.constructor.name
+      )
+        return mismatch('constructor differs')
+
+      // Are objects of type RegExp?
+      if (left instanceof RegExp && right instanceof RegExp)
+        return left.toString() === right.toString() || mismatch('value differs') // Compare their string representations.
+
+      // Are objects of type Date?
+      if (left instanceof Date && right instanceof Date)
+        return (
+          (rules.dates === 'time'
+            ? Object.is(left.getTime(), right.getTime()) // PS: invalid dates have `NaN` timestamps.
+            : left.toString() === right.toString()) || mismatch('value differs')
+        )
 
-      // Are objects of type RegExp or Date?
+      // Are objects of type URL?
       if (
-        (left instanceof RegExp && right instanceof RegExp) ||
-        (left instanceof Date && right instanceof Date)
+        typeof URL !== 'undefined' &&
+        left instanceof URL &&
+        right instanceof URL
       )
-        return left.toString() === right.toString() // Compare their string representations.
+        return left.href === right.href || mismatch('value differs')
+
+      // Are objects of type ArrayBuffer or DataView? Compare their bytes.
+      if (
+        (left instanceof ArrayBuffer && right instanceof ArrayBuffer) ||
+        (left instanceof DataView && right instanceof DataView)
+      ) {
+        const leftBytes = toBytes(left)
+        const rightBytes = toBytes(right)
+
+        if (leftBytes.length !== rightBytes.length)
+          return mismatch('length differs')
+
+        const index = leftBytes.findIndex((byte, i) => byte !== rightBytes[i])
+
+        return (
+          index === -1 ||
+          mismatch(
+            'value differs',
+            [() => `<byte #${index}>`],
+            [leftBytes[index], rightBytes[index]],
+          )
+        )
+      }
+
+      // Are objects typed arrays (e.g. Uint8Array)? Compare their items, which are always primitives.
+      if (ArrayBuffer.isView(left) && ArrayBuffer.isView(right))
+        return compareWithRules(
+          Array.from(left as unknown as ArrayLike<number | bigint>),
+          Array.from(right as unknown as ArrayLike<number | bigint>),
+          context,
+          [],
+          depth,
+          path,
+        )
+
+      // Are objects of type Set? Their items must match in pairs, no matter their order.
+      if (left instanceof Set && right instanceof Set) {
+        if (left.size !== right.size) return mismatch('size differs') // Sets have different sizes?
+
+        return matchInPairs(
+          context,
+          [...left],
+          [...right],
+          attemptNested,
+          leftItem =>
+            mismatch(
+              'missing key',
+              [() => `<Set item ${describeValue(leftItem)}>`],
+              [leftItem, undefined],
+            ),
+        )
+      }
+
+      // Are objects of type Error? Their (non-enumerable) names, messages and causes must match, besides
+      // any other (enumerable) properties they might have, compared below.
+      if (
+        left instanceof Error &&
+        right instanceof Error &&
+        !everyItem(context, ['name', 'message', 'cause'], key =>
+          compareNested(
+            left[key as keyof Error],
+            right[key as keyof Error],
+            key,
+          ),
+        )
+      ) {
+        if (!explainAll) return false
+
+        sameSoFar = false
+      }
+
+      // Are objects boxed primitives (e.g. `new Number(1)`)? Their primitive values must match, too.
+      if (
+        isBoxedPrimitive(left) &&
+        isBoxedPrimitive(right) &&
+        !compareWithRules(
+          left.valueOf(),
+          right.valueOf(),
+          context,
+          alreadyCompared,
+          depth,
+          mismatches ? [...path, () => '.valueOf()'] : path,
+        )
+      ) {
+        if (!explainAll) return false
+
+        sameSoFar = false
+      }
 
       // Are objects of type Map?
       if (left instanceof Map && right instanceof Map) {
         // Maps have different number of keys?
-        if (left.size !== right.size) return false
+        if (left.size !== right.size) return mismatch('size differs')
+
+        const leftEntries = [...left.entries()] as [unknown, unknown][]
+        const rightEntries = [...right.entries()] as [unknown, unknown][]
+
+        // Unless their keys must be in the same order, key+value pairs can simply be matched in pairs.
+        if (!rules.mapKeyOrder)
+          return matchInPairs(
+            context,
+            leftEntries,
+            rightEntries,
+            ([leftKey, leftValue], [rightKey, rightValue]) =>
+              attemptNested(leftKey, rightKey) &&
+              attemptNested(leftValue, rightValue),
+            ([leftKey, leftValue]) =>
+              mismatch(
+                'missing key',
+                [() => `<Map key ${describeValue(leftKey)}>`],
+                [leftValue, undefined],
+              ),
+          )
 
         // Or different keys (order matter)?
         if (
-          !compareValues([...left.keys()], [...right.keys()], alreadyCompared)
+          !everyItem(context, leftEntries, ([leftKey], i) =>
+            compareNested(leftKey, rightEntries[i][0], () => `<Map key #${i}>`),
+          )
         )
           return false
 
         // Do all key+value pairs match?
-        return ([...left.entries()] as [unknown, unknown][]).every(
-          ([leftKey, leftValue]) => {
-            // Find the corresponding right key. Notice that this key will always be found, given we have
-            // already checked that left and right keys match.
-            const rightKey = ([...right.keys()] as unknown[]).find(key =>
-              compareValues(key, leftKey, alreadyCompared),
-            )
+        return everyItem(context, leftEntries, ([leftKey, leftValue]) => {
+          // Find the corresponding right key. Notice that this key will always be found, given we have
+          // already checked that left and right keys match.
+          const rightKey = rightEntries.find(([key]) =>
+            attemptNested(key, leftKey),
+          )?.[0]
 
-            return compareValues(
-              leftValue,
-              right.get(rightKey) as unknown,
-              alreadyCompared,
-            )
-          },
-        )
+          return compareNested(
+            leftValue,
+            right.get(rightKey) as unknown,
+            () => `<Map key ${describeValue(leftKey)}>`,
+          )
+        })
       }
     }
 
     // From this point on simply assume both are standard JS objects, used as dictionaries.
 
+    // Array indexes are reported as such (e.g. `[2]`, instead of `['2']`).
+    const toSegment = (key: string) =>
+      Array.isArray(left) || Array.isArray(right) ? Number(key) : key
+
     const leftKeys = Object.keys(left)
     const rightKeys = Object.keys(right)
+    const sortedLeftKeys = [...leftKeys].sort()
+    const sortedRightKeys = [...rightKeys].sort()
 
     if (
-      leftKeys.length !== rightKeys.length || // Objects have different number of keys?
-      !compareValues(leftKeys.sort(), rightKeys.sort(), alreadyCompared) // Or different keys (no matter their order)?
-    )
+      sortedLeftKeys.length !== sortedRightKeys.length || // Objects have different number of keys?
+      !sortedLeftKeys.every((key, i) => key === sortedRightKeys[i]) // Or different keys (no matter their order)?
+    ) {
+      if (mismatches) {
+        const leftKeySet = new Set(leftKeys)
+        const rightKeySet = new Set(rightKeys)
+
+        everyItem(
+          context,
+          [
+            ...leftKeys
+              .filter(key => !rightKeySet.has(key))
+              .map(
+                key => () =>
+                  mismatch(
+                    'missing key',
+                    [toSegment(key)],
+                    [left[key as keyof typeof left], undefined],
+                  ),
+              ),
+            ...rightKeys
+              .filter(key => !leftKeySet.has(key))
+              .map(
+                key => () =>
+                  mismatch(
+                    'extra key',
+                    [toSegment(key)],
+                    [undefined, right[key as keyof typeof right]],
+                  ),
+              ),
+          ],
+          report => report(),
+        )
+      }
+
       return false
+    }
+
+    // Or different key orders (when they matter)?
+    if (
+      rules.objectKeyOrder &&
+      !leftKeys.every((key, i) => key === rightKeys[i])
+    )
+      return mismatch('key order differs', [], [leftKeys, rightKeys])
+
+    const leftSymbols = getSymbolKeys(left)
+    const rightSymbols = getSymbolKeys(right)
+
+    // Objects have different symbol keys?
+    const missingSymbol = leftSymbols.find(
+      symbol => !rightSymbols.includes(symbol),
+    )
+    const extraSymbol = rightSymbols.find(
+      symbol => !leftSymbols.includes(symbol),
+    )
+
+    if (missingSymbol)
+      return mismatch(
+        'missing key',
+        [missingSymbol],
+        [left[missingSymbol as keyof typeof left], undefined],
+      )
+
+    if (extraSymbol)
+      return mismatch(
+        'extra key',
+        [extraSymbol],
+        [undefined, right[extraSymbol as keyof typeof right]],
+      )
 
     // Do all key+value pairs match?
-    return Object.entries(left).every(([leftKey, leftValue]) =>
-      compareValues(
-        leftValue,
-        right[leftKey as keyof typeof right],
-        alreadyCompared,
-      ),
+    return (
+      everyItem(context, [...leftKeys, ...leftSymbols], key =>
+        compareNested(
+          left[key as keyof typeof left],
+          right[key as keyof typeof right],
+          typeof key === 'string' ? toSegment(key) : key,
+        ),
+      ) && sameSoFar
     )
   }
 
   // Values are not equal!
-  return false
-}
-
-// TS types generator: https://tsplay.dev/NnY6qw
-
-// ====================================
-// Copy generated types below this line
-/* prettier-ignore */ type MemoizeUtilsType<T> = { clearEntry: (...args: unknown[]) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils0ParamsType<T> = EmptyObjectType & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils1ParamType<T, P1> = { clearEntry: (p1: P1) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils2ParamsType<T, P1, P2> = { clearEntry: (p1: P1, p2: P2) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils3ParamsType<T, P1, P2, P3> = { clearEntry: (p1: P1, p2: P2, p3: P3) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils4ParamsType<T, P1, P2, P3, P4> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils5ParamsType<T, P1, P2, P3, P4, P5> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils6ParamsType<T, P1, P2, P3, P4, P5, P6> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils7ParamsType<T, P1, P2, P3, P4, P5, P6, P7> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils8ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils9ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils10ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils11ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils12ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils13ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils14ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils15ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils16ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils17ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils18ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils19ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils20ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils21ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils22ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils23ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils24ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils25ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24, p25: P25) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils26ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24, p25: P25, p26: P26) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils27ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24, p25: P25, p26: P26, p27: P27) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils28ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24, p25: P25, p26: P26, p27: P27, p28: P28) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils29ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24, p25: P25, p26: P26, p27: P27, p28: P28, p29: P29) => void; } & MemoizeUtilsCommonType<T>;
-/* prettier-ignore */ type MemoizeUtils30ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29, P30> = { clearEntry: (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24, p25: P25, p26: P26, p27: P27, p28: P28, p29: P29, p30: P30) => void; } & MemoizeUtilsCommonType<T>;
-
-/* prettier-ignore */ type Memoize0ParamsType<T> = () => T;
-/* prettier-ignore */ type Memoize1ParamType<T, P1> = (p1: P1) => T;
-/* prettier-ignore */ type Memoize2ParamsType<T, P1, P2> = (p1: P1, p2: P2) => T;
-/* prettier-ignore */ type Memoize3ParamsType<T, P1, P2, P3> = (p1: P1, p2: P2, p3: P3) => T;
-/* prettier-ignore */ type Memoize4ParamsType<T, P1, P2, P3, P4> = (p1: P1, p2: P2, p3: P3, p4: P4) => T;
-/* prettier-ignore */ type Memoize5ParamsType<T, P1, P2, P3, P4, P5> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5) => T;
-/* prettier-ignore */ type Memoize6ParamsType<T, P1, P2, P3, P4, P5, P6> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6) => T;
-/* prettier-ignore */ type Memoize7ParamsType<T, P1, P2, P3, P4, P5, P6, P7> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7) => T;
-/* prettier-ignore */ type Memoize8ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8) => T;
-/* prettier-ignore */ type Memoize9ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9) => T;
-/* prettier-ignore */ type Memoize10ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10) => T;
-/* prettier-ignore */ type Memoize11ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11) => T;
-/* prettier-ignore */ type Memoize12ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12) => T;
-/* prettier-ignore */ type Memoize13ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13) => T;
-/* prettier-ignore */ type Memoize14ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14) => T;
-/* prettier-ignore */ type Memoize15ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15) => T;
-/* prettier-ignore */ type Memoize16ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16) => T;
-/* prettier-ignore */ type Memoize17ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17) => T;
-/* prettier-ignore */ type Memoize18ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18) => T;
-/* prettier-ignore */ type Memoize19ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19) => T;
-/* prettier-ignore */ type Memoize20ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20) => T;
-/* prettier-ignore */ type Memoize21ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21) => T;
-/* prettier-ignore */ type Memoize22ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22) => T;
-/* prettier-ignore */ type Memoize23ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23) => T;
-/* prettier-ignore */ type Memoize24ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24) => T;
-/* prettier-ignore */ type Memoize25ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24, p25: P25) => T;
-/* prettier-ignore */ type Memoize26ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24, p25: P25, p26: P26) => T;
-/* prettier-ignore */ type Memoize27ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24, p25: P25, p26: P26, p27: P27) => T;
-/* prettier-ignore */ type Memoize28ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24, p25: P25, p26: P26, p27: P27, p28: P28) => T;
-/* prettier-ignore */ type Memoize29ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24, p25: P25, p26: P26, p27: P27, p28: P28, p29: P29) => T;
-/* prettier-ignore */ type Memoize30ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29, P30> = (p1: P1, p2: P2, p3: P3, p4: P4, p5: P5, p6: P6, p7: P7, p8: P8, p9: P9, p10: P10, p11: P11, p12: P12, p13: P13, p14: P14, p15: P15, p16: P16, p17: P17, p18: P18, p19: P19, p20: P20, p21: P21, p22: P22, p23: P23, p24: P24, p25: P25, p26: P26, p27: P27, p28: P28, p29: P29, p30: P30) => T;
+  return mismatch('value differs')
+}
+
+// Whether each left item matches a different right item (both arrays having the same length). Left items
+// without any match are reported as missing.
+const matchInPairs = <I>(
+  context: ComparisonContextType,
+  leftItems: I[],
+  rightItems: I[],
+  matches: (leftItem: I, rightItem: I) => boolean,
+  missing: (leftItem: I) => false,
+) => {
+  const unmatchedItems = [...rightItems]
+
+  return everyItem(context, leftItems, leftItem => {
+    const index = unmatchedItems.findIndex(rightItem =>
+      matches(leftItem, rightItem),
+    )
+
+    if (index === -1) return missing(leftItem)
+
+    unmatchedItems.splice(index, 1)
+
+    return true
+  })
+}
 
 /**
- * A function that memoizes the result of `fn` based on the actual arguments provided.
- * It can optionally receive a custom comparison function for determining cache hits.
- * Additional utility methods are provided, in order to manage the associated cache.
+ * A function that compares two values. Its default behavior is to compare each value individually with
+ * the standand `===` JS/TS's strict-equals operator, which basically deals with all primitive types (big
+ * integers included, while `NaN` is also considered the same as itself), but the function also takes care
+ * of collection-like structures such as objects (with string or symbol keys), maps (with all kinds of
+ * keys), sets (no matter their items order), arrays and typed arrays of any depth. And you can freely and
+ * safely mix them all. Classes (in fact, class instances), regular expressions, dates, URLs, errors, boxed
+ * primitives, array buffers (and data views) and even functions are covered, too. Circular data
+ * structures are also supported (so there is no risk of the dreaded "Stack Overflow" error).
+ *
+ * Comparators following different rules can be created by `createComparator()`.
  *
- * @template T - The return type of the memoized function (always inferred automatically by TS).
- * @template P1, P2 … Pn - The types of each of the n function's arguments (always inferred automatically by TS).
- * @param {MemoizeFnType<T>} fn - The function to be memoized.
- * @param {comparisonFnType<T>} [comparisonFn] - An optional custom parameter-comparison function for determining cache hits based on the actual arguments passed.
- * @returns {MemoizeFnType<T> & MemoizeUtilsType<T>} - The memoized function with additional utility methods.
+ * @template T - The left and right values type, such that incompatible types are caught at compile time
+ * when using TypeScript.
+ * @param {T} left - The left value.
+ * @param {T} right - The right value.
+ * @returns {boolean} - Whether the 2 values are considered the same (i.e. are equal).
  */
 
-// @ts-expect-error: Temporary fix to avoid a TS warning in the overloaded signatures below, due to the use of the `comparisonFn()` optional callback.
-/* prettier-ignore */ export function memoize<T>(fn: Memoize0ParamsType<T>): Memoize0ParamsType<T> & MemoizeUtils0ParamsType<T>;
-/* prettier-ignore */ export function memoize<T, P1>(fn: Memoize1ParamType<T, P1>, comparisonFn?: (leftArgs: [P1], rightArgs: [P1]) => boolean): Memoize1ParamType<T, P1> & MemoizeUtils1ParamType<T, P1>;
-/* prettier-ignore */ export function memoize<T, P1, P2>(fn: Memoize2ParamsType<T, P1, P2>, comparisonFn?: (leftArgs: [P1, P2], rightArgs: [P1, P2]) => boolean): Memoize2ParamsType<T, P1, P2> & MemoizeUtils2ParamsType<T, P1, P2>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3>(fn: Memoize3ParamsType<T, P1, P2, P3>, comparisonFn?: (leftArgs: [P1, P2, P3], rightArgs: [P1, P2, P3]) => boolean): Memoize3ParamsType<T, P1, P2, P3> & MemoizeUtils3ParamsType<T, P1, P2, P3>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4>(fn: Memoize4ParamsType<T, P1, P2, P3, P4>, comparisonFn?: (leftArgs: [P1, P2, P3, P4], rightArgs: [P1, P2, P3, P4]) => boolean): Memoize4ParamsType<T, P1, P2, P3, P4> & MemoizeUtils4ParamsType<T, P1, P2, P3, P4>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5>(fn: Memoize5ParamsType<T, P1, P2, P3, P4, P5>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5], rightArgs: [P1, P2, P3, P4, P5]) => boolean): Memoize5ParamsType<T, P1, P2, P3, P4, P5> & MemoizeUtils5ParamsType<T, P1, P2, P3, P4, P5>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6>(fn: Memoize6ParamsType<T, P1, P2, P3, P4, P5, P6>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6], rightArgs: [P1, P2, P3, P4, P5, P6]) => boolean): Memoize6ParamsType<T, P1, P2, P3, P4, P5, P6> & MemoizeUtils6ParamsType<T, P1, P2, P3, P4, P5, P6>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7>(fn: Memoize7ParamsType<T, P1, P2, P3, P4, P5, P6, P7>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7], rightArgs: [P1, P2, P3, P4, P5, P6, P7]) => boolean): Memoize7ParamsType<T, P1, P2, P3, P4, P5, P6, P7> & MemoizeUtils7ParamsType<T, P1, P2, P3, P4, P5, P6, P7>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8>(fn: Memoize8ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8]) => boolean): Memoize8ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8> & MemoizeUtils8ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9>(fn: Memoize9ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9]) => boolean): Memoize9ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9> & MemoizeUtils9ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10>(fn: Memoize10ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10]) => boolean): Memoize10ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10> & MemoizeUtils10ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11>(fn: Memoize11ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11]) => boolean): Memoize11ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11> & MemoizeUtils11ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12>(fn: Memoize12ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12]) => boolean): Memoize12ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12> & MemoizeUtils12ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13>(fn: Memoize13ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13]) => boolean): Memoize13ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13> & MemoizeUtils13ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14>(fn: Memoize14ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14]) => boolean): Memoize14ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14> & MemoizeUtils14ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15>(fn: Memoize15ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15]) => boolean): Memoize15ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15> & MemoizeUtils15ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16>(fn: Memoize16ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16]) => boolean): Memoize16ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16> & MemoizeUtils16ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17>(fn: Memoize17ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17]) => boolean): Memoize17ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17> & MemoizeUtils17ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18>(fn: Memoize18ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18]) => boolean): Memoize18ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18> & MemoizeUtils18ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19>(fn: Memoize19ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19]) => boolean): Memoize19ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19> & MemoizeUtils19ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20>(fn: Memoize20ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20]) => boolean): Memoize20ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20> & MemoizeUtils20ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21>(fn: Memoize21ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21]) => boolean): Memoize21ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21> & MemoizeUtils21ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22>(fn: Memoize22ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22]) => boolean): Memoize22ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22> & MemoizeUtils22ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23>(fn: Memoize23ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23]) => boolean): Memoize23ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23> & MemoizeUtils23ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24>(fn: Memoize24ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24]) => boolean): Memoize24ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24> & MemoizeUtils24ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25>(fn: Memoize25ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25]) => boolean): Memoize25ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25> & MemoizeUtils25ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26>(fn: Memoize26ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26]) => boolean): Memoize26ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26> & MemoizeUtils26ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27>(fn: Memoize27ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27]) => boolean): Memoize27ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27> & MemoizeUtils27ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28>(fn: Memoize28ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28]) => boolean): Memoize28ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28> & MemoizeUtils28ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29>(fn: Memoize29ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29]) => boolean): Memoize29ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29> & MemoizeUtils29ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29>;
-/* prettier-ignore */ export function memoize<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29, P30>(fn: Memoize30ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29, P30>, comparisonFn?: (leftArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29, P30], rightArgs: [P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29, P30]) => boolean): Memoize30ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29, P30> & MemoizeUtils30ParamsType<T, P1, P2, P3, P4, P5, P6, P7, P8, P9, P10, P11, P12, P13, P14, P15, P16, P17, P18, P19, P20, P21, P22, P23, P24, P25, P26, P27, P28, P29, P30>;
-// Copy generated types above this line
-// ====================================
+export const compareValues = <T>(
+  left: T,
+  right: T,
+  alreadyCompared: { left: unknown; right: unknown }[] = [],
+): boolean =>
+  compareWithRules(
+    left,
+    right,
+    { rules: DEFAULT_COMPARATOR_OPTIONS },
+    alreadyCompared,
+    0,
+    [],
+  )
+
+const resolveComparatorRules = (
+  options: ComparatorOptionsType,
+): ComparatorRulesType => {
+  const defaults = options.strict
+    ? STRICT_COMPARATOR_OPTIONS
+    : DEFAULT_COMPARATOR_OPTIONS
 
-export function memoize<T>(
-  fn: MemoizeFnType<T>,
-  comparisonFn?: comparisonFnType<T>,
-): MemoizeFnType<T> & MemoizeUtilsType<T> {
-  const cache: MemoizeCacheType<T> = []
+  // A plain loop, since `Object.fromEntries()` is missing from older runtimes (e.g. Node 10).
+  const entries: Record<string, unknown> = {}
 
-  const findCacheIndex = (cacheEntry: unknown[]) =>
-    cache.findIndex(({ key }) =>
-      (comparisonFn ?? compareValues)(key, cacheEntry),
-    )
+  for (const [name, value] of Object.entries(defaults))
+    entries[name] = options[name as keyof ComparatorOptionsType] ?? value
 
-  const memoizedFn: MemoizeFnType<T> & MemoizeUtilsType<T> = (...args) => {
-    let value: T
-    const index = findCacheIndex(args)
+  const rules = entries as ComparatorRulesType
 
-    if (index !== -1) {
-      if (DEBUG) console.log('Retrieving memoized value for', args)
+  if (!(rules.maxDepth >= 0))
+    throw new RangeError(`Invalid \`maxDepth\` option: ${rules.maxDepth}`)
 
-      value = cache[index].value
-    } else {
-      value = fn(...args)
+  return rules
+}
+
+/**
+ * Creates a function that compares two values just like `compareValues()` does, except for the rules
+ * toggled by the given options: whether map and object keys must be in the same order, whether class
+ * instances are matched by constructor name or by prototype, whether functions are compared by source
+ * code or by identity, whether dates are compared with or without their milliseconds, whether arrays
+ * match objects with array behavior and how deep values are compared. Strict mode changes the defaults
+ * of all these options to their strictest values.
+ *
+ * The comparator can be used on its own or as the `comparisonFn` of `memoize()`.
+ *
+ * @param {ComparatorOptionsType} [options] - The rules to be followed.
+ * @returns {<T>(left: T, right: T) => boolean} - The new comparator.
+ */
+
+export const createComparator = (
+  options: ComparatorOptionsType = {},
+): (<T>(left: T, right: T) => boolean) => {
+  const rules = resolveComparatorRules(options)
+  const context = { rules }
+
+  const comparator = <T>(left: T, right: T) =>
+    compareWithRules(left, right, context, [], 0, [])
+
+  comparatorRules.set(comparator, rules)
+
+  return comparator
+}
+
+// Collects the mismatches between two values, under some already resolved comparison rules.
+const explainWithRules = (
+  left: unknown,
+  right: unknown,
+  rules: ComparatorRulesType,
+  all: boolean,
+) => {
+  const mismatches: MismatchType[] = []
+
+  compareWithRules(left, right, { rules, mismatches, all }, [], 0, [])
+
+  return mismatches
+}
+
+/**
+ * A function that explains why two values are not considered the same by `compareValues()` (or by a
+ * comparator created by `createComparator()`, when given its options), going through them exactly the
+ * same way. Each mismatch comes along with its path, e.g. `[2].profits[1]` or `.settings<Map key {x:0}>`
+ * (empty for the values themselves), its reason (e.g. 'length differs') and the mismatching values.
+ *
+ * @param {unknown} left - The left value.
+ * @param {unknown} right - The right value.
+ * @param {ComparatorOptionsType & { all?: boolean }} [options] - The comparison rules (see
+ * `createComparator()`), plus whether every mismatch is wanted (`all`), instead of just the first one.
+ * @returns {MismatchType[]} - The mismatches found (none when the values are considered the same).
+ */
+
+export const explainDifference = (
+  left: unknown,
+  right: unknown,
+  { all = false, ...options }: ComparatorOptionsType & { all?: boolean } = {},
+): MismatchType[] =>
+  explainWithRules(left, right, resolveComparatorRules(options), all)
+
+// Limits for `hashValue()`: nesting levels taken into account and total number of values visited.
+const HASH_MAX_DEPTH = 16
+const HASH_MAX_VISITS = 100_000
+
+// Hash shared by all values which are too big (or too self-referencing) to be fully hashed.
+const HASH_TOO_BIG = 0
+
+const hashString = (s: string, seed = 0x811c9dc5): number => {
+  let hash = seed
+
+  for (let i = 0; i < s.length; i++)
+    hash = Math.imul(hash ^ s.charCodeAt(i), 0x01000193) // FNV-1a.
+
+  return hash >>> 0
+}
+
+const combineHashes = (left: number, right: number): number =>
+  hashString(String(right), left)
+
+/**
+ * A function that calculates a (32-bit, non-cryptographic) structural hash for a value, consistent with the
+ * `compareValues()` semantics: whenever 2 values are considered the same by that function, they are also
+ * guaranteed to have the same hash (the opposite, of course, does not hold). The same goes for all the
+ * comparators created by `createComparator()`. So objects with the same keys
+ * in different orders, arrays and objects with array behavior, maps with unusual keys and even circular
+ * data structures are all covered.
+ *
+ * Too big (or too deep) values have some of their parts ignored, which is perfectly safe, although it
+ * makes collisions more likely.
+ *
+ * @param {unknown} value - The value to be hashed.
+ * @returns {number} - The value's hash.
+ */
+
+export const hashValue = (value: unknown): number => {
+  let visits = 0
+
+  // The hashes of all objects found so far, by depth, along with the number of values visited for each.
+  const knownHashes = new Map<object, { hash: number; visits: number }[]>()
+
+  const hash = (value: unknown, depth: number): number => {
+    visits++
 
-      cache.unshift({ key: args, value })
+    const type = typeof value
+
+    if (value === null) return hashString('null')
+    if (type === 'symbol') return hashString(`symbol:${String(value)}`)
+    if (type === 'function') return hashString(`function:${String(value)}`)
+    if (type !== 'object') return hashString(`${type}:${String(value)}`) // PS: `String(-0) === '0'`.
+
+    // Circular data structures are simply unrolled until the maximum depth is reached, which guarantees
+    // that equivalent structures (even with different cycle lengths) end up with the same hash.
+    if (depth >= HASH_MAX_DEPTH || visits > HASH_MAX_VISITS)
+      return hashString('object')
+
+    // Objects referenced more than once (e.g. the nodes of a doubly linked list) would otherwise be hashed
+    // once for every path leading to them, whose number can grow exponentially. But their hashes only
+    // depend on the depth they are found at, so they are reused, while still counted as visited as many
+    // times as they are found (which keeps hashes independent of how the very same objects are shared).
+    const hashesByDepth = knownHashes.get(value as object) ?? []
+    const known = hashesByDepth[depth]
+
+    if (known) {
+      visits += known.visits
+
+      return known.hash
     }
 
-    return value
-  }
+    const visitsBefore = visits
+    const result = hashObject(value as object, depth)
 
-  memoizedFn.clearAll = () => {
-    cache.length = 0
+    hashesByDepth[depth] = { hash: result, visits: visits - visitsBefore }
+    knownHashes.set(value as object, hashesByDepth)
+
+    return result
   }
 
-  // This method is needed only for functions with at least 1 parameter.
-  if (fn.length > 0) {
-    memoizedFn.clearEntry = (...args: unknown[]) => {
-      const index = findCacheIndex(args)
+  const hashObject = (value: object, depth: number): number => {
+    if (
+      value instanceof RegExp ||
+      value instanceof Date ||
+      (typeof URL !== 'undefined' && value instanceof URL)
+    )
+      return hashString(`${value.constructor.name}:${value.toString()}`)
+
+    if (value instanceof ArrayBuffer || value instanceof DataView)
+      return toBytes(value).reduce(
+        combineHashes,
+        hashString(value.constructor.name),
+      )
+
+    // Sets are compared no matter their items order, so their items are combined in an order-independent
+    // way (by summing their hashes).
+    if (value instanceof Set) {
+      let sum = 0
+
+      value.forEach(item => {
+        sum = (sum + hash(item, depth + 1)) >>> 0
+      })
+
+      return combineHashes(hashString('Set'), sum)
+    }
+
+    // Keys are combined in an order-independent way (by summing their hashes), so the hash is also
+    // consistent with comparators which ignore the order of map keys (see `createComparator()`).
+    if (value instanceof Map) {
+      const keyHashes = [...value.keys()].map(key => hash(key, depth + 1))
+
+      let sum = keyHashes.reduce((sum, keyHash) => (sum + keyHash) >>> 0, 0)
 
-      if (index !== -1) cache.splice(index, 1)
+      // Map values can only be taken into account when no 2 keys look the same, since `compareValues()`
+      // always pairs each left value with the one belonging to the first matching right key.
+      if (new Set(keyHashes).size === keyHashes.length)
+        [...value.values()].forEach((item, i) => {
+          sum = (sum + combineHashes(keyHashes[i], hash(item, depth + 1))) >>> 0
+        })
+
+      return combineHashes(hashString('Map'), sum)
     }
+
+    // Arrays and objects with array behavior are considered the same by `compareValues()`, so both are
+    // hashed as standard dictionaries. Keys are combined in an order-independent way (by summing their
+    // hashes) and keys holding `undefined` are skipped, which keeps sparse arrays consistent, too.
+    const constructorName = value.constructor?.name
+    const isDictionary = Array.isArray(value) || constructorName === 'Object'
+
+    // Only the items of an array are compared, never any other properties it might have.
+    const keys = Array.isArray(value)
+      ? value.map((_, i) => String(i))
+      : Object.keys(value)
+
+    const sum = keys.reduce((sum, key) => {
+      const item = (value as Record<string, unknown>)[key]
+
+      return item === undefined
+        ? sum
+        : (sum + combineHashes(hashString(key), hash(item, depth + 1))) >>> 0
+    }, 0)
+
+    // Errors and boxed primitives are also identified by their (non-enumerable) messages and values.
+    const tag = isDictionary
+      ? 'Object'
+      : value instanceof Error
+        ? `${constructorName}:${value.name}:${value.message}`
+        : isBoxedPrimitive(value)
+          ? `${constructorName}:${String(value.valueOf())}`
+          : `${constructorName}`
+
+    return combineHashes(hashString(tag), sum)
   }
 
-  memoizedFn.getCache = () => cache
+  const result = hash(value, 0)
 
-  return memoizedFn
+  // Too big values could have been partially hashed in many different ways, depending on which of their
+  // parts were ignored, so they all share a single hash.
+  return visits > HASH_MAX_VISITS ? HASH_TOO_BIG : result
+}
+
+/**
+ * A function that roughly estimates how many bytes a value takes in memory, much like common JS engines lay
+ * values out. It walks the very same structures `compareValues()` understands: arrays, objects (symbol
+ * keys included), maps, sets, strings, dates, regular expressions, URLs, errors, boxed primitives, typed
+ * arrays, `ArrayBuffer`s and `DataView`s. Values referenced more than once (e.g. in circular data
+ * structures) are only counted once.
+ *
+ * @param {unknown} value - The value to be measured.
+ * @returns {number} - Its approximate size, in bytes.
+ */
+
+export const estimateSize = (value: unknown): number => {
+  const visited = new Set<object>()
+
+  const stringSize = (value: string) => 12 + 2 * value.length
+
+  const size = (value: unknown): number => {
+    switch (typeof value) {
+      case 'undefined':
+        return 0
+      case 'boolean':
+        return 4
+      case 'number':
+        return 8
+      case 'bigint':
+        return 16 + Math.ceil(value.toString(16).length / 2)
+      case 'string':
+        return stringSize(value)
+      case 'symbol':
+        return 8 + stringSize(value.description ?? '')
+    }
+
+    if (value === null || visited.has(value as object)) return 0
+
+    visited.add(value as object)
+
+    if (typeof value === 'function') return 64
+
+    if (value instanceof ArrayBuffer) return 32 + value.byteLength
+
+    // Views share their buffers, which are counted only once as well.
+    if (ArrayBuffer.isView(value)) return 32 + size(value.buffer)
+
+    if (value instanceof Date) return 24
+
+    if (
+      value instanceof RegExp ||
+      (typeof URL !== 'undefined' && value instanceof URL)
+    )
+      return 24 + stringSize(value.toString())
+
+    if (isBoxedPrimitive(value as object))
+      return 16 + size((value as object).valueOf())
+
+    if (value instanceof Map) {
+      let total = 32
+
+      value.forEach((item, key) => {
+        total += 16 + size(key) + size(item)
+      })
+
+      return total
+    }
+
+    if (value instanceof Set) {
+      let total = 32
+
+      value.forEach(item => {
+        total += 8 + size(item)
+      })
+
+      return total
+    }
+
+    // Arrays only need their items, while other objects need their keys, too.
+    if (Array.isArray(value))
+      return value.reduce((total: number, item) => total + 8 + size(item), 16)
+
+    const keys = [
+      ...Object.keys(value as object),
+      ...getSymbolKeys(value as object),
+    ]
+
+    // Errors also hold their (non-enumerable) messages and stack traces.
+    const total =
+      value instanceof Error ? 24 + size(value.message) + size(value.stack) : 24
+
+    return keys.reduce(
+      (total, key) =>
+        total +
+        8 +
+        size(key) +
+        size((value as Record<PropertyKey, unknown>)[key]),
+      total,
+    )
+  }
+
+  return size(value)
+}
+
+/**
+ * A function that deeply clones a value, much like `structuredClone()` does, but going through the very
+ * same structures `compareValues()` understands, so the clone is always considered the same as the
+ * original one (even by the strictest comparator): arrays, objects (symbol keys, non-enumerable properties
+ * and prototypes included, so class instances keep their classes), maps, sets, dates, regular expressions,
+ * URLs, errors, boxed primitives, typed arrays, `ArrayBuffer`s and `DataView`s. Values referenced more than
+ * once (e.g. in circular data structures) are cloned only once, too. Functions, promises and weak
+ * collections cannot be cloned, so they are shared by the clone.
+ *
+ * @template V - The type of the value.
+ * @param {V} value - The value to be cloned.
+ * @returns {V} - Its clone.
+ */
+
+export const cloneValue = <V>(value: V): V => {
+  const clones = new Map<object, unknown>()
+
+  const cloneObject = (value: object): object => {
+    if (value instanceof ArrayBuffer) return value.slice(0)
+
+    if (value instanceof DataView)
+      return new DataView(
+        clone(value.buffer) as ArrayBuffer,
+        value.byteOffset,
+        value.byteLength,
+      )
+
+    // Views share their buffers, and so do their clones.
+    if (ArrayBuffer.isView(value)) {
+      const { buffer, byteOffset, length } = value as unknown as Uint8Array
+      const TypedArray = value.constructor as new (
+        buffer: ArrayBuffer,
+        byteOffset: number,
+        length: number,
+      ) => object
+
+      return new TypedArray(clone(buffer) as ArrayBuffer, byteOffset, length)
+    }
+
+    if (value instanceof Date) return new Date(value.getTime())
+
+    if (value instanceof RegExp) return new RegExp(value)
+
+    if (typeof URL !== 'undefined' && value instanceof URL)
+      return new URL(value.href)
+
+    if (isBoxedPrimitive(value)) return Object(value.valueOf())
+
+    if (value instanceof Map) {
+      const map = new Map()
+
+      clones.set(value, map)
+      value.forEach((item, key) => map.set(clone(key), clone(item)))
+
+      return map
+    }
+
+    if (value instanceof Set) {
+      const set = new Set()
+
+      clones.set(value, set)
+      value.forEach(item => set.add(clone(item)))
+
+      return set
+    }
+
+    // Any other object (errors included) is rebuilt from its own properties, on top of the same prototype.
+    const object = Array.isArray(value)
+      ? new Array(value.length)
+      : Object.create(Object.getPrototypeOf(value))
+
+    clones.set(value, object)
+
+    for (const key of Reflect.ownKeys(value)) {
+      const descriptor = Object.getOwnPropertyDescriptor(value, key)!
+
+      if ('value' in descriptor) descriptor.value = clone(descriptor.value)
+
+      Object.defineProperty(object, key, descriptor)
+    }
+
+    return object
+  }
+
+  const clone = (value: unknown): unknown => {
+    if (
+      typeof value !== 'object' ||
+      value === null ||
+      isPromiseLike(value) ||
+      value instanceof WeakMap ||
+      value instanceof WeakSet ||
+      (typeof WeakRef !== 'undefined' && value instanceof WeakRef)
+    )
+      return value
+
+    if (clones.has(value)) return clones.get(value)
+
+    const object = cloneObject(value)
+
+    // Subclasses of built-in classes (e.g. `class Registry extends Map`) keep their prototypes as well.
+    if (Object.getPrototypeOf(object) !== Object.getPrototypeOf(value))
+      Object.setPrototypeOf(object, Object.getPrototypeOf(value))
+
+    clones.set(value, object)
+
+    return object
+  }
+
+  return clone(value) as V
+}
+
+/**
+ * A function that deeply freezes a value, i.e. it freezes (by `Object.freeze()`) the value itself, along
+ * with every object it holds: property values, array items, map keys and values, and set items. Notice
+ * that maps, sets, dates and typed arrays can still be changed through their own methods (and typed
+ * arrays cannot even be frozen), which is beyond the reach of `Object.freeze()`. Functions and prototypes
+ * are left alone.
+ *
+ * @template V - The type of the value.
+ * @param {V} value - The value to be frozen.
+ * @returns {V} - The very same value, now frozen.
+ */
+
+export const deepFreeze = <V>(value: V): V => {
+  const visited = new Set<object>()
+
+  const freeze = (value: unknown) => {
+    if (typeof value !== 'object' || value === null || visited.has(value))
+      return
+
+    visited.add(value)
+
+    if (value instanceof Map)
+      value.forEach((item, key) => {
+        freeze(key)
+        freeze(item)
+      })
+    else if (value instanceof Set) value.forEach(freeze)
+
+    if (ArrayBuffer.isView(value)) return
+
+    for (const key of Reflect.ownKeys(value)) {
+      const descriptor = Object.getOwnPropertyDescriptor(value, key)!
+
+      if ('value' in descriptor) freeze(descriptor.value)
+    }
+
+    Object.freeze(value)
+  }
+
+  freeze(value)
+
+  return value
+}
+
+/**
+ * Creates a "Least Recently Used" eviction policy, which evicts the entry that has gone the longest
+ * without being either stored or read.
+ *
+ * @template T - The return type of the memoized function.
+ * @returns {EvictionPolicyType<T>} - A new (stateful) eviction policy.
+ */
+
+export const lruPolicy = <T>(): EvictionPolicyType<T> => {
+  // Maps keep their insertion order, so the first key is always the least recently used entry.
+  const recency = new Map<MemoizeCacheEntryType<T>, true>()
+
+  const touch = (entry: MemoizeCacheEntryType<T>) => {
+    recency.delete(entry)
+    recency.set(entry, true)
+  }
+
+  return {
+    onSet: touch,
+    onHit: touch,
+    onDelete: entry => recency.delete(entry),
+    onClear: () => recency.clear(),
+    selectVictim: () => recency.keys().next().value,
+  }
+}
+
+/**
+ * Creates a "Least Frequently Used" eviction policy, which evicts the entry with the fewest cache hits.
+ * Ties are broken in favor of keeping the most recently used entry.
+ *
+ * @template T - The return type of the memoized function.
+ * @returns {EvictionPolicyType<T>} - A new (stateful) eviction policy.
+ */
+
+export const lfuPolicy = <T>(): EvictionPolicyType<T> => {
+  const usage = new Map<
+    MemoizeCacheEntryType<T>,
+    { hits: number; lastUsed: number }
+  >()
+  let clock = 0
+
+  return {
+    onSet: entry => usage.set(entry, { hits: 0, lastUsed: clock++ }),
+    onHit: entry => {
+      const stats = usage.get(entry)
+
+      if (stats) {
+        stats.hits++
+        stats.lastUsed = clock++
+      }
+    },
+    onDelete: entry => usage.delete(entry),
+    onClear: () => usage.clear(),
+    selectVictim: () => {
+      let victim: MemoizeCacheEntryType<T> | undefined
+      let victimStats: { hits: number; lastUsed: number } | undefined
+
+      usage.forEach((stats, entry) => {
+        if (
+          victimStats === undefined ||
+          stats.hits < victimStats.hits ||
+          (stats.hits === victimStats.hits &&
+            stats.lastUsed < victimStats.lastUsed)
+        ) {
+          victim = entry
+          victimStats = stats
+        }
+      })
+
+      return victim
+    },
+  }
+}
+
+/**
+ * Creates a "First In, First Out" eviction policy, which evicts the oldest stored entry, no matter how
+ * often (or how recently) it has been read.
+ *
+ * @template T - The return type of the memoized function.
+ * @returns {EvictionPolicyType<T>} - A new eviction policy.
+ */
+
+export const fifoPolicy = <T>(): EvictionPolicyType<T> => ({
+  // New entries are always added to the beginning of the cache, so the oldest one is always the last.
+  selectVictim: cache => cache[cache.length - 1],
+})
+
+const evictionPolicies: Record<
+  EvictionPolicyNameType,
+  <T>() => EvictionPolicyType<T>
+> = {
+  lru: lruPolicy,
+  lfu: lfuPolicy,
+  fifo: fifoPolicy,
+}
+
+/**
+ * Creates an array-backed cache store, the default one. Entries are kept in a single array, newest first,
+ * and are also grouped by the hash of their keys, so only the entries in a single bucket need to be
+ * compared on lookups. Entries without a hash are found by a linear scan.
+ *
+ * @template T - The return type of the memoized function.
+ * @returns {CacheStoreType<T>} - A new (empty) cache store.
+ */
+
+export const arrayCacheStore = <T>(): CacheStoreType<T> => {
+  const cache: MemoizeCacheType<T> = []
+  const buckets = new Map<number | string | symbol, MemoizeCacheType<T>>()
+  const entryHashes = new Map<
+    MemoizeCacheEntryType<T>,
+    number | string | symbol
+  >()
+
+  return {
+    get: (key, hash, compare) =>
+      (hash === undefined ? cache : buckets.get(hash))?.find(entry =>
+        compare(entry.key, key),
+      ),
+    set: (entry, hash) => {
+      cache.unshift(entry)
+
+      if (hash !== undefined) {
+        const bucket = buckets.get(hash)
+
+        if (bucket) bucket.unshift(entry)
+        else buckets.set(hash, [entry])
+
+        entryHashes.set(entry, hash)
+      }
+    },
+    delete: entry => {
+      const index = cache.indexOf(entry)
+
+      if (index === -1) return false
+
+      cache.splice(index, 1)
+
+      const hash = entryHashes.get(entry)
+
+      if (hash !== undefined) {
+        const bucket = buckets.get(hash)!
+
+        if (bucket.length > 1) bucket.splice(bucket.indexOf(entry), 1)
+        else buckets.delete(hash)
+
+        entryHashes.delete(entry)
+      }
+
+      return true
+    },
+    clear: () => {
+      cache.length = 0
+      buckets.clear()
+      entryHashes.clear()
+    },
+    entries: () => cache,
+    size: () => cache.length,
+  }
+}
+
+/**
+ * Creates a `Map`-backed cache store. Entries are grouped by the hash of their keys, just like in the
+ * default store, but both insertions and deletions take constant time, while `entries()` has to build a
+ * new array on every call.
+ *
+ * @template T - The return type of the memoized function.
+ * @returns {CacheStoreType<T>} - A new (empty) cache store.
+ */
+
+export const mapCacheStore = <T>(): CacheStoreType<T> => {
+  // Maps keep their insertion order, so entries are stored oldest first.
+  const entryHashes = new Map<
+    MemoizeCacheEntryType<T>,
+    number | string | symbol | undefined
+  >()
+  const buckets = new Map<
+    number | string | symbol,
+    Set<MemoizeCacheEntryType<T>>
+  >()
+
+  const find = (
+    entries: Iterable<MemoizeCacheEntryType<T>>,
+    key: unknown[],
+    compare: comparisonFnType,
+  ) => {
+    for (const entry of entries) if (compare(entry.key, key)) return entry
+  }
+
+  return {
+    get: (key, hash, compare) =>
+      hash === undefined
+        ? find(entryHashes.keys(), key, compare)
+        : find(buckets.get(hash) ?? [], key, compare),
+    set: (entry, hash) => {
+      entryHashes.set(entry, hash)
+
+      if (hash !== undefined) {
+        const bucket = buckets.get(hash)
+
+        if (bucket) bucket.add(entry)
+        else buckets.set(hash, new Set([entry]))
+      }
+    },
+    delete: entry => {
+      if (!entryHashes.has(entry)) return false
+
+      const hash = entryHashes.get(entry)
+
+      entryHashes.delete(entry)
+
+      if (hash !== undefined) {
+        const bucket = buckets.get(hash)!
+
+        bucket.delete(entry)
+
+        if (bucket.size === 0) buckets.delete(hash)
+      }
+
+      return true
+    },
+    clear: () => {
+      entryHashes.clear()
+      buckets.clear()
+    },
+    entries: () => [...entryHashes.keys()].reverse(),
+    size: () => entryHashes.size,
+  }
+}
+
+// The key of the entries whose arguments (or value) have been garbage-collected, in weak mode. It never
+// matches any arguments, since lookups check for it (by identity) before even comparing keys.
+const COLLECTED_KEY: unknown[] = []
+
+// A high-resolution timestamp (in ms), for measuring compute times, or else a regular one on runtimes
+// without `performance` (e.g. Node 14 and older).
+const now = () =>
+  typeof performance !== 'undefined' ? performance.now() : Date.now()
+
+// The "SameValueZero" equality, used for `Map` keys (and `Array.prototype.includes()`): just like `===`,
+// except that `NaN` matches itself.
+const isSameKey = (left: unknown, right: unknown) =>
+  left === right || (Number.isNaN(left) && Number.isNaN(right))
+
+// Only objects (functions included) can be held through weak references.
+const isObject = (value: unknown): value is object =>
+  (typeof value === 'object' && value !== null) || typeof value === 'function'
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  (typeof value === 'object' || typeof value === 'function') &&
+  value !== null &&
+  typeof (value as { then?: unknown }).then === 'function'
+
+// Splits the arguments of an abortable call into the cache key and the signal (if any). Trailing
+// `undefined`s are left out of the key, with or without a signal, so e.g. `f(1, undefined, signal)` and
+// `f(1)` share the very same key.
+const splitSignal = (args: unknown[]): [unknown[], AbortSignal | undefined] => {
+  const last = args[args.length - 1]
+  const signal = last instanceof AbortSignal ? last : undefined
+  const key = signal ? args.slice(0, -1) : [...args]
+
+  while (key.length > 0 && key[key.length - 1] === undefined) key.pop()
+
+  return [key, signal]
+}
+
+// Settles just like a promise, unless the signal gets aborted first, in which case it rejects with the
+// reason of the signal (and `onAbort()` is called).
+const raceSignal = <V>(
+  promise: PromiseLike<V>,
+  signal: AbortSignal,
+  onAbort: () => void,
+) =>
+  new Promise<V>((resolve, reject) => {
+    const abort = () => {
+      reject(signal.reason)
+      onAbort()
+    }
+
+    signal.addEventListener('abort', abort, { once: true })
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', abort)
+        resolve(value)
+      },
+      error => {
+        signal.removeEventListener('abort', abort)
+        reject(error)
+      },
+    )
+  })
+
+// The (sync or async) iterator returned by a memoized function in replay mode, shared by all callers, along
+// with the items pulled from it so far and, once it is done, how it ended: either returning or throwing.
+type ReplaySourceType = {
+  iterator: Iterator<unknown> | AsyncIterator<unknown>
+  items: unknown[]
+  outcome?: { value: unknown } | { error: unknown }
+  pulling?: Promise<void> // The pending pull from an async iterator, shared by all replaying iterators.
+  onError: (error: unknown) => void
+}
+
+const isAsyncIterator = (
+  iterator: object,
+): iterator is AsyncIterator<unknown> =>
+  typeof (iterator as AsyncIterable<unknown>)[Symbol.asyncIterator] ===
+  'function'
+
+const recordResult = (
+  source: ReplaySourceType,
+  { done, value }: IteratorResult<unknown>,
+) => {
+  if (done) source.outcome = { value }
+  else source.items.push(value)
+}
+
+const recordError = (source: ReplaySourceType, error: unknown) => {
+  source.outcome = { error }
+  source.onError(error)
+}
+
+// How the source ended, for every replaying iterator to end the very same way.
+const replayOutcome = ({ outcome }: ReplaySourceType) => {
+  if (outcome && 'error' in outcome) throw outcome.error
+
+  return outcome?.value
+}
+
+// Replays the items of a sync source, pulling new ones (for every other replaying iterator, too) as needed.
+const replaySync = function* (source: ReplaySourceType) {
+  for (let index = 0; ; index++) {
+    if (index === source.items.length && !source.outcome)
+      try {
+        recordResult(source, (source.iterator as Iterator<unknown>).next())
+      } catch (error) {
+        recordError(source, error)
+      }
+
+    if (index === source.items.length) return replayOutcome(source)
+
+    yield source.items[index]
+  }
+}
+
+// Replays the items of an async source, just like `replaySync()`, except that concurrent pulls are shared.
+const replayAsync = async function* (source: ReplaySourceType) {
+  for (let index = 0; ; index++) {
+    while (index === source.items.length && !source.outcome)
+      await (source.pulling ??= Promise.resolve()
+        .then(() => source.iterator.next())
+        .then(
+          result => recordResult(source, result),
+          error => recordError(source, error),
+        )
+        .finally(() => {
+          source.pulling = undefined
+        }))
+
+    if (index === source.items.length) return replayOutcome(source)
+
+    yield source.items[index]
+  }
+}
+
+// The version of an atom, bumped on every change.
+type AtomVersionType = { version: number }
+
+// The atoms read by a calculation (identified by their versions), along with their versions at the time.
+type AtomReadsType = Map<AtomVersionType, number>
+
+// The atoms read by the calculation in progress, if any (see `trackAtomReads()`).
+let currentAtomReads: AtomReadsType | undefined
+
+// Reports atom reads to the calculation in progress, if any, which depends on them from then on.
+const reportAtomReads = (reads: AtomReadsType) =>
+  reads.forEach((version, atom) => currentAtomReads?.set(atom, version))
+
+// Runs a calculation, collecting the atoms it reads (synchronously), which are also reported to the
+// enclosing calculation, if any, e.g. when a memoized function calls another one.
+const trackAtomReads = <R>(calculate: () => R): [R, AtomReadsType] => {
+  const outerAtomReads = currentAtomReads
+  const reads: AtomReadsType = (currentAtomReads = new Map())
+
+  try {
+    return [calculate(), reads]
+  } finally {
+    currentAtomReads = outerAtomReads
+    reportAtomReads(reads)
+  }
+}
+
+// Whether any of the atoms read by a calculation has changed since then.
+const haveAtomsChanged = (reads: AtomReadsType) =>
+  [...reads].some(([atom, version]) => atom.version !== version)
+
+/**
+ * A function that creates an atom, a piece of state which memoized functions automatically depend on
+ * when reading it (synchronously) while calculating their values. Once the atom changes, all entries
+ * calculated from it become stale, and get recalculated on their next calls.
+ *
+ * @template V - The type of the atom's value (inferred automatically by TS).
+ * @param {V} initialValue - The initial value of the atom.
+ * @returns {AtomType<V>} - The atom.
+ */
+
+export const createAtom = <V>(initialValue: V): AtomType<V> => {
+  let value = initialValue
+  const version: AtomVersionType = { version: 0 }
+
+  const set = (newValue: V) => {
+    // Setting the very same value (as told by `Object.is()`) is not a change.
+    if (Object.is(newValue, value)) return
+
+    value = newValue
+    version.version++
+  }
+
+  return {
+    get: () => {
+      currentAtomReads?.set(version, version.version)
+
+      return value
+    },
+    set,
+    update: updater => set(updater(value)),
+  }
+}
+
+// Identifies (and versions) the serialization format used by `serialize()` and `deserialize()`. The version
+// must be bumped whenever the format changes in an incompatible way.
+const SERIALIZATION_FORMAT = '@cdandrea/memoize-ts'
+const SERIALIZATION_VERSION = 1
+
+type SerializedNodeType =
+  | null
+  | boolean
+  | number
+  | string
+  | {
+      $: string // The type tag, e.g. 'undefined', 'array' or 'map'.
+      id?: number // Identifies objects which are referenced more than once (or circularly).
+      v?: unknown
+      class?: string
+    }
+
+type SerializedSnapshotType = {
+  format: string
+  version: number
+  data: SerializedNodeType
+}
+
+type ClassType = abstract new (...args: never[]) => unknown
+
+export type DeserializeOptionsType = {
+  // Classes whose instances may be found in the serialized value (looked up by their names).
+  classes?: ClassType[]
+}
+
+/**
+ * A function that serializes a value into a (JSON) string, in a lossless way: besides everything JSON
+ * already supports, `undefined`, `NaN`, `±Infinity`, `-0`, big integers, sparse arrays, maps (with all
+ * kinds of keys), sets, dates, regular expressions, URLs, errors, boxed primitives, typed arrays, array
+ * buffers, data views and class instances are all preserved, and so are shared and circular references.
+ * Symbols are only supported when registered (by `Symbol.for()`), while functions and promises cannot be
+ * serialized at all.
+ *
+ * The string holds a JSON object with 3 keys: `format` (always '@cdandrea/memoize-ts'), `version`
+ * (currently 1) and `data`, the serialized value itself. Strings, booleans, `null` and finite numbers are
+ * kept as is, while any other value becomes an object tagged by its `$` key:
+ *
+ * - `{ $: 'undefined' }` and `{ $: 'hole' }` (an empty slot in a sparse array)
+ * - `{ $: 'number', v: 'NaN' | 'Infinity' | '-Infinity' | '-0' }` and `{ $: 'bigint', v: '123' }`
+ * - `{ $: 'symbol', v: key }`, for a symbol created by `Symbol.for(key)`
+ * - `{ $: 'array' | 'set', id, v: [...items] }` and `{ $: 'map', id, v: [...[key, value]] }`
+ * - `{ $: 'object', id, class?, v: [...[key, value]] }`, where `class` is the constructor's name (omitted
+ *   for plain objects) and keys are either strings or serialized symbols
+ * - `{ $: 'error', id, class, v: [...[key, value]] }`, whose keys include `name`, `message` and `cause`
+ * - `{ $: 'boxed', id, v: primitive }` and `{ $: 'typedarray', id, class, v: [...items] }`
+ * - `{ $: 'arraybuffer' | 'dataview', id, v: [...bytes] }`
+ * - `{ $: 'date', id, v: '1723431600000' }`, `{ $: 'regexp', id, v: [source, flags] }` and
+ *   `{ $: 'url', id, v: href }`
+ * - `{ $: 'ref', id }`, a reference to an object already serialized, with that same `id`
+ *
+ * @param {unknown} value - The value to be serialized.
+ * @returns {string} - The serialized value.
+ */
+
+export const serialize = (value: unknown): string => {
+  const ids = new Map<object, number>()
+
+  const encode = (value: unknown): SerializedNodeType => {
+    switch (typeof value) {
+      case 'string':
+      case 'boolean':
+        return value
+      case 'number':
+        return Number.isFinite(value) && !Object.is(value, -0)
+          ? value
+          : { $: 'number', v: Object.is(value, -0) ? '-0' : String(value) }
+      case 'bigint':
+        return { $: 'bigint', v: String(value) }
+      case 'undefined':
+        return { $: 'undefined' }
+      case 'symbol': {
+        // Only symbols from the global registry (i.e. created by `Symbol.for()`) can be restored.
+        const key = Symbol.keyFor(value)
+
+        if (key === undefined)
+          throw new TypeError('Cannot serialize a non-registered symbol')
+
+        return { $: 'symbol', v: key }
+      }
+      case 'function':
+        throw new TypeError(`Cannot serialize a ${typeof value}`)
+    }
+
+    if (value === null) return null
+
+    const object = value as object
+
+    if (ids.has(object)) return { $: 'ref', id: ids.get(object) }
+
+    if (isPromiseLike(object)) throw new TypeError('Cannot serialize a promise')
+
+    const id = ids.size
+
+    ids.set(object, id)
+
+    if (object instanceof Date)
+      return { $: 'date', id, v: String(object.getTime()) }
+
+    if (object instanceof RegExp)
+      return { $: 'regexp', id, v: [object.source, object.flags] }
+
+    if (typeof URL !== 'undefined' && object instanceof URL)
+      return { $: 'url', id, v: object.href }
+
+    if (object instanceof ArrayBuffer)
+      return { $: 'arraybuffer', id, v: [...toBytes(object)] }
+
+    if (object instanceof DataView)
+      return { $: 'dataview', id, v: [...toBytes(object)] }
+
+    if (ArrayBuffer.isView(object))
+      return {
+        $: 'typedarray',
+        id,
+        class: object.constructor.name,
+        v: Array.from(object as unknown as ArrayLike<number | bigint>, encode),
+      }
+
+    if (object instanceof Set)
+      return { $: 'set', id, v: [...object].map(encode) }
+
+    if (isBoxedPrimitive(object))
+      return { $: 'boxed', id, v: encode(object.valueOf()) }
+
+    if (object instanceof Map)
+      return {
+        $: 'map',
+        id,
+        v: [...object.entries()].map(([key, item]) => [
+          encode(key),
+          encode(item),
+        ]),
+      }
+
+    if (Array.isArray(object))
+      return {
+        $: 'array',
+        id,
+        v: Array.from({ length: object.length }, (_, i) =>
+          i in object ? encode(object[i]) : { $: 'hole' },
+        ),
+      }
+
+    const className = object.constructor?.name
+
+    // Errors also keep their (non-enumerable) names, messages and causes.
+    const keys: (string | symbol)[] = [
+      ...(object instanceof Error
+        ? ['name', 'message', ...('cause' in object ? ['cause'] : [])]
+        : []),
+      ...Object.keys(object),
+      ...getSymbolKeys(object),
+    ]
+
+    return {
+      $: object instanceof Error ? 'error' : 'object',
+      id,
+      ...(className && className !== 'Object' ? { class: className } : {}),
+      v: [...new Set(keys)].map(key => [
+        typeof key === 'symbol' ? encode(key) : key,
+        encode(object[key as keyof typeof object]),
+      ]),
+    }
+  }
+
+  const snapshot: SerializedSnapshotType = {
+    format: SERIALIZATION_FORMAT,
+    version: SERIALIZATION_VERSION,
+    data: encode(value),
+  }
+
+  return JSON.stringify(snapshot)
+}
+
+// Built-in classes whose instances can be deserialized without being listed in the `classes` option. The
+// ones missing from older runtimes (e.g. `AggregateError`, which is ES2021) are simply left out.
+const getBuiltInClasses = (): ClassType[] => [
+  Error,
+  ...(typeof AggregateError !== 'undefined' ? [AggregateError] : []),
+  EvalError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TypeError,
+  URIError,
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  ...(typeof BigInt64Array !== 'undefined'
+    ? [BigInt64Array, BigUint64Array]
+    : []),
+]
+
+/**
+ * A function that deserializes a string produced by `serialize()`, restoring the original value.
+ *
+ * @param {string} serialized - The serialized value.
+ * @param {DeserializeOptionsType} [options] - The classes whose instances may be found in the serialized
+ * value, so they can be properly restored (an error is thrown for unknown classes).
+ * @returns {unknown} - The deserialized value.
+ */
+
+export const deserialize = (
+  serialized: string,
+  { classes = [] }: DeserializeOptionsType = {},
+): unknown => {
+  const snapshot: Partial<SerializedSnapshotType> | null =
+    JSON.parse(serialized)
+
+  if (
+    snapshot?.format !== SERIALIZATION_FORMAT ||
+    snapshot.version !== SERIALIZATION_VERSION
+  )
+    throw new Error(
+      `Incompatible serialization format (expected ${SERIALIZATION_FORMAT} version ${SERIALIZATION_VERSION}, got ${snapshot?.format} version ${snapshot?.version})`,
+    )
+
+  const objects = new Map<number, unknown>()
+  const builtInClasses = getBuiltInClasses()
+
+  const findClass = (className: string | undefined) => {
+    const Class = [...classes, ...builtInClasses].find(
+      ({ name }) => name === className,
+    )
+
+    if (!Class) throw new Error(`Unknown serialized class: ${className}`)
+
+    return Class
+  }
+
+  // Objects are registered before their contents are decoded, so circular references can be resolved.
+  const register = <O>(id: number | undefined, object: O): O => {
+    objects.set(id!, object)
+
+    return object
+  }
+
+  const decode = (node: SerializedNodeType): unknown => {
+    if (node === null || typeof node !== 'object') return node
+
+    const { $: type, id, v } = node
+
+    switch (type) {
+      case 'undefined':
+      case 'hole':
+        return undefined
+      case 'number':
+        return Number(v)
+      case 'bigint':
+        return BigInt(v as string)
+      case 'symbol':
+        return Symbol.for(v as string)
+      case 'ref':
+        if (!objects.has(id!))
+          throw new Error(`Invalid serialized reference: ${id}`)
+
+        return objects.get(id!)
+      case 'date':
+        return register(id, new Date(Number(v)))
+      case 'regexp':
+        return register(id, new RegExp(...(v as [string, string])))
+      case 'url':
+        return register(id, new URL(v as string))
+      case 'arraybuffer':
+        return register(id, new Uint8Array(v as number[]).buffer)
+      case 'dataview':
+        return register(id, new DataView(new Uint8Array(v as number[]).buffer))
+      case 'typedarray':
+        return register(
+          id,
+          new (findClass(node.class) as new (items: unknown[]) => unknown)(
+            (v as SerializedNodeType[]).map(decode),
+          ),
+        )
+      case 'set': {
+        const set = register(id, new Set())
+
+        ;(v as SerializedNodeType[]).forEach(item => set.add(decode(item)))
+
+        return set
+      }
+      case 'boxed':
+        return register(id, Object(decode(v as SerializedNodeType)))
+      case 'map': {
+        const map = register(id, new Map())
+
+        ;(v as [SerializedNodeType, SerializedNodeType][]).forEach(
+          ([key, item]) => map.set(decode(key), decode(item)),
+        )
+
+        return map
+      }
+      case 'array': {
+        const items = v as SerializedNodeType[]
+        const array = register(id, new Array(items.length))
+
+        items.forEach((item, i) => {
+          if ((item as { $?: string } | null)?.$ !== 'hole')
+            array[i] = decode(item)
+        })
+
+        return array
+      }
+      case 'object':
+      case 'error': {
+        const Class = node.class ? findClass(node.class) : Object
+
+        const object = register(
+          id,
+          Object.create(Class.prototype) as Record<string | symbol, unknown>,
+        )
+
+        ;(v as [string | SerializedNodeType, SerializedNodeType][]).forEach(
+          ([key, item]) => {
+            const property =
+              typeof key === 'string' ? key : (decode(key) as symbol)
+
+            // Just like in the original errors, their names, messages and causes are not enumerable.
+            if (
+              type === 'error' &&
+              ['name', 'message', 'cause'].includes(property as string)
+            )
+              Object.defineProperty(object, property, {
+                value: decode(item),
+                writable: true,
+                configurable: true,
+              })
+            else object[property] = decode(item)
+          },
+        )
+
+        return object
+      }
+      default:
+        throw new Error(`Unknown serialized type: ${type}`)
+    }
+  }
+
+  return decode(snapshot.data!)
+}
+
+// What a registry needs from each memoized function in order to keep all of them within its budget.
+type RegistryMemberType = {
+  memoizedFn: MemoizeFnType<unknown> & MemoizeUtilsType<unknown>
+  bytes: () => number
+  purgeStale: () => void
+  evictOne: () => void
+}
+
+type RegistryInternalsType = {
+  options: Required<MemoizeRegistryOptionsType>
+  members: Map<string, RegistryMemberType>
+}
+
+const registryInternals = new WeakMap<
+  MemoizeRegistryType,
+  RegistryInternalsType
+>()
+
+// Makes room for a new entry of a given size (in bytes) in all caches of a registry, evicting from the
+// least valuable caches first, i.e. those with the lowest hit ratios (the largest ones, on ties).
+// Returns whether the new entry fits in the budget at all.
+const makeRoomInRegistry = (
+  { options: { maxEntries, maxBytes }, members }: RegistryInternalsType,
+  bytes: number,
+) => {
+  if (bytes > maxBytes) return false
+
+  const isFull = () => {
+    let totalEntries = 0
+    let totalBytes = 0
+
+    members.forEach(member => {
+      totalEntries += member.memoizedFn.getStats().size
+      totalBytes += member.bytes()
+    })
+
+    return totalEntries >= maxEntries || totalBytes + bytes > maxBytes
+  }
+
+  // Expired (and stale or collected) entries are the first ones to go.
+  if (isFull()) members.forEach(member => member.purgeStale())
+
+  while (isFull()) {
+    const [leastValuable] = [...members.values()]
+      .map(member => ({ member, stats: member.memoizedFn.getStats() }))
+      .filter(({ stats }) => stats.size > 0)
+      .sort(
+        (left, right) =>
+          left.stats.hitRatio - right.stats.hitRatio ||
+          right.stats.size - left.stats.size,
+      )
+
+    if (!leastValuable) break
+
+    leastValuable.member.evictOne()
+  }
+
+  return true
+}
+
+/**
+ * A function that creates a registry of named memoized functions, which join it through the `registry`
+ * option of `memoize()` (along with the `name` option). The registry lets them be looked up by name and
+ * cleared all at once, aggregates their statistics and, optionally, keeps all of their caches together
+ * within a shared budget of entries and (approximate) bytes, evicting entries from the least valuable
+ * caches (those with the lowest hit ratios) first.
+ *
+ * @param {MemoizeRegistryOptionsType} [options] - The shared budget: `maxEntries` and `maxBytes` (both
+ * default to `Infinity`).
+ * @returns {MemoizeRegistryType} - A new (empty) registry.
+ */
+
+export const createRegistry = ({
+  maxEntries = Infinity,
+  maxBytes = Infinity,
+}: MemoizeRegistryOptionsType = {}): MemoizeRegistryType => {
+  if (!(maxEntries >= 1))
+    throw new RangeError(`Invalid \`maxEntries\` option: ${maxEntries}`)
+
+  if (!(maxBytes > 0))
+    throw new RangeError(`Invalid \`maxBytes\` option: ${maxBytes}`)
+
+  const members = new Map<string, RegistryMemberType>()
+
+  const registry: MemoizeRegistryType = {
+    get: name => members.get(name)?.memoizedFn,
+    names: () => [...members.keys()],
+    unregister: name => {
+      members.delete(name)
+    },
+    clearAll: () => members.forEach(({ memoizedFn }) => memoizedFn.clearAll()),
+    getStats: () => {
+      const functions: Record<string, MemoizeStatsType> = {}
+      const totals = {
+        hits: 0,
+        misses: 0,
+        size: 0,
+        evictions: 0,
+        computeTime: 0,
+      }
+      let bytes = 0
+
+      members.forEach((member, name) => {
+        const stats = (functions[name] = member.memoizedFn.getStats())
+
+        totals.hits += stats.hits
+        totals.misses += stats.misses
+        totals.size += stats.size
+        totals.evictions += stats.evictions
+        totals.computeTime += stats.computeTime
+        bytes += member.bytes()
+      })
+
+      const calls = totals.hits + totals.misses
+
+      return {
+        ...totals,
+        hitRatio: calls > 0 ? totals.hits / calls : 0,
+        bytes,
+        functions,
+      }
+    },
+  }
+
+  registryInternals.set(registry, {
+    options: { maxEntries, maxBytes },
+    members,
+  })
+
+  return registry
+}
+
+/**
+ * A function that memoizes the result of `fn` based on the actual arguments provided.
+ * It can optionally receive a custom comparison function for determining cache hits, or an options object
+ * which, besides that same function, allows bounding the cache size, choosing an eviction policy and
+ * setting a time-to-live for the cached entries. Functions returning promises can also be memoized in
+ * async mode, where rejected promises are automatically evicted from the cache. Lifecycle callbacks can
+ * be supplied, too, in order to observe cache hits, misses, insertions and removals. Entries can also
+ * depend on external state, either versioned (see the `deps` option) or kept in atoms.
+ * The cache itself is kept in a pluggable cache store, an array-backed one by default (or a `Map`-backed one
+ * when entries are found by a key derived from the arguments, through the `keyFn` option).
+ * In weak mode, object arguments (and, optionally, results) are held through weak references instead.
+ * `this` is forwarded to `fn`, but not taken into account (see `memoizeMethod()` for per-instance caches).
+ * Memoized functions can also join a registry (see `createRegistry()`), under a name.
+ * Additional utility methods are provided, in order to manage the associated cache.
+ *
+ * @template F - The type of the function to be memoized (always inferred automatically by TS), from which
+ * both its parameters tuple, `Parameters<F>`, and its return type, `ReturnType<F>`, are derived. So any
+ * number of parameters is supported, including optional, default and rest ones.
+ * @param {F} fn - The function to be memoized.
+ * @param {comparisonFnType<Parameters<F>> | MemoizeOptionsType<ReturnType<F>, Parameters<F>>} [comparisonFnOrOptions] - An optional custom parameter-comparison function for determining cache hits based on the actual arguments passed, or an options object.
+ * @returns {MemoizedFnType<F>} - The memoized function with additional utility methods.
+ */
+
+export function memoize<F extends (...args: never[]) => unknown>(
+  fn: F,
+  comparisonFnOrOptions?: NoInfer<
+    | comparisonFnType<Parameters<F>>
+    | MemoizeOptionsType<ReturnType<F>, Parameters<F>>
+  >,
+): MemoizedFnType<F>
+export function memoize<T>(
+  fn: MemoizeFnType<T>,
+  comparisonFnOrOptions?: comparisonFnType | MemoizeOptionsType<T, unknown[]>,
+): MemoizeFnType<T> & MemoizeUtilsType<T> {
+  const options =
+    typeof comparisonFnOrOptions === 'function'
+      ? { comparisonFn: comparisonFnOrOptions }
+      : (comparisonFnOrOptions ?? {})
+
+  const {
+    comparisonFn,
+    hashFn,
+    keyFn,
+    maxSize = Infinity,
+    maxBytes = Infinity,
+    sizeOf,
+    evictionPolicy = 'lru',
+    store = keyFn ? mapCacheStore<T>() : arrayCacheStore<T>(),
+    weak = false,
+    ttl,
+    cacheErrors,
+    errorTtl,
+    tags,
+    cloneArgs = false,
+    protectValues,
+    detectMutations = false,
+    deps,
+    registry: functionRegistry,
+    name = fn.name,
+    clock = Date.now,
+    async = false,
+    cacheRejections = false,
+    staleWhileRevalidate = 0,
+    onRefreshError,
+    abortable = false,
+    replay = false,
+    onHit,
+    onMiss,
+    onSet,
+    onEvict,
+    onCollect,
+    onClear,
+  } = options
+
+  if (keyFn && (comparisonFn || hashFn))
+    throw new Error(
+      'The `keyFn` option cannot be combined with `comparisonFn` or `hashFn`',
+    )
+
+  if (!(maxSize >= 1))
+    throw new RangeError(`Invalid \`maxSize\` option: ${maxSize}`)
+
+  if (!(maxBytes > 0))
+    throw new RangeError(`Invalid \`maxBytes\` option: ${maxBytes}`)
+
+  if (cacheErrors !== undefined && options.cacheRejections !== undefined)
+    throw new Error(
+      'The `cacheRejections` option cannot be combined with `cacheErrors`',
+    )
+
+  if (!(staleWhileRevalidate >= 0))
+    throw new RangeError(
+      `Invalid \`staleWhileRevalidate\` option: ${staleWhileRevalidate}`,
+    )
+
+  if (staleWhileRevalidate > 0 && ttl === undefined)
+    throw new Error('The `staleWhileRevalidate` option requires `ttl`')
+
+  const { args: weakArgs = false, values: weakValues = false } =
+    typeof weak === 'object' ? weak : { args: weak }
+
+  if (
+    (weakArgs || weakValues) &&
+    (typeof WeakRef === 'undefined' ||
+      typeof FinalizationRegistry === 'undefined')
+  )
+    throw new Error(
+      'The `weak` option requires `WeakRef` and `FinalizationRegistry` support',
+    )
+
+  if (replay && protectValues)
+    throw new Error(
+      'The `replay` option cannot be combined with `protectValues`',
+    )
+
+  // Snapshots would be garbage-collected right away.
+  if (cloneArgs && weakArgs)
+    throw new Error(
+      'The `cloneArgs` option cannot be combined with weakly held arguments',
+    )
+
+  const registryData =
+    functionRegistry && registryInternals.get(functionRegistry)
+
+  if (registryData) {
+    if (!name)
+      throw new Error(
+        'Anonymous functions need the `name` option to join a registry',
+      )
+
+    if (registryData.members.has(name))
+      throw new Error(
+        `A memoized function named "${name}" is already registered`,
+      )
+  }
+
+  const policy =
+    typeof evictionPolicy === 'string'
+      ? evictionPolicies[evictionPolicy]<T>()
+      : evictionPolicy
+
+  const stats = { hits: 0, misses: 0, evictions: 0, computeTime: 0 }
+
+  // How many calls to `fn` are currently in progress, so the time spent inside recursive calls does not
+  // get counted more than once.
+  let computeDepth = 0
+
+  const compute = (thisArg: unknown, args: unknown[]) => {
+    const start = computeDepth++ === 0 ? now() : undefined
+
+    try {
+      return trackAtomReads(() => fn.apply(thisArg, args))
+    } finally {
+      computeDepth--
+
+      if (start !== undefined) stats.computeTime += now() - start
+    }
+  }
+
+  // Entries are handed to the store along with the hash of their keys (i.e. of their arguments), so it
+  // only needs to compare the entries sharing that hash on lookups. A custom comparison function, however,
+  // can only be trusted with a matching hash function (unless created by `createComparator()`), so
+  // without one all entries are compared. A derived key takes the place of the hash, so every entry gets
+  // a bucket of its own (in a `Map`, with the default store for that mode).
+  const hashArgs =
+    keyFn ??
+    hashFn ??
+    (!comparisonFn || comparatorRules.has(comparisonFn) ? hashValue : undefined)
+
+  const compareKeys: comparisonFnType = (key, args) =>
+    key !== COLLECTED_KEY && (comparisonFn ?? compareValues)(key, args)
+
+  // The keys derived from the arguments of the cached entries, by their arguments tuples, since the
+  // arguments themselves might have been mutated in the meantime (and `keyFn()` might be expensive).
+  const derivedKeys = new WeakMap<unknown[], number | string | symbol>()
+
+  // Derived keys (which take the place of the hashes) match just like `Map` keys do, so `NaN` matches itself.
+  const findCacheEntry = (args: unknown[], hash = hashArgs?.(args)) =>
+    store.get(
+      args,
+      hash,
+      keyFn
+        ? key => key !== COLLECTED_KEY && isSameKey(derivedKeys.get(key), hash)
+        : compareKeys,
+    )
+
+  // In weak mode, entries are removed as soon as any of their weakly held arguments (or value) gets
+  // garbage-collected. Until then, they just turn into cache misses (see `COLLECTED_KEY`).
+  const registry =
+    weakArgs || weakValues
+      ? new FinalizationRegistry<MemoizeCacheEntryType<T>>(entry =>
+          deleteCacheEntry(entry, 'collected'),
+        )
+      : undefined
+
+  // The arguments of the weakly held entries which are still alive (the collected ones being `undefined`).
+  const remainingArgs = new WeakMap<MemoizeCacheEntryType<T>, () => unknown[]>()
+
+  const createCacheEntry = (
+    key: unknown[],
+    value: T,
+    hash: number | string | symbol | undefined,
+  ): MemoizeCacheEntryType<T> => {
+    const derivedKey = keyFn ? hash : undefined
+
+    const keyRefs = key.map(arg =>
+      weakArgs && isObject(arg) ? new WeakRef(arg) : undefined,
+    )
+    const valueRef =
+      isObject(value) &&
+      (typeof weakValues === 'function' ? weakValues(value) : weakValues)
+        ? new WeakRef(value)
+        : undefined
+
+    if (!registry || (!valueRef && keyRefs.every(ref => !ref))) {
+      if (derivedKey !== undefined) derivedKeys.set(key, derivedKey)
+
+      return { key, value }
+    }
+
+    // The getters below must not close over `key` and `value`, or they would never be collected.
+    const strongKey = key.map((arg, i) => (keyRefs[i] ? undefined : arg))
+    const strongValue = valueRef ? undefined : value
+    const derefKey = () => strongKey.map((arg, i) => keyRefs[i]?.deref() ?? arg)
+
+    const entry: MemoizeCacheEntryType<T> = {
+      get key() {
+        const args = derefKey()
+
+        if (
+          keyRefs.some((ref, i) => ref && args[i] === undefined) ||
+          (valueRef && valueRef.deref() === undefined)
+        )
+          return COLLECTED_KEY
+
+        // Every call returns a brand new tuple, which must still be matched by its derived key.
+        if (derivedKey !== undefined) derivedKeys.set(args, derivedKey)
+
+        return args
+      },
+      get value() {
+        return (valueRef ? valueRef.deref() : strongValue) as T
+      },
+    }
+
+    key.forEach((arg, i) => {
+      if (keyRefs[i]) registry.register(arg as object, entry, entry)
+    })
+
+    if (valueRef) registry.register(value as object, entry, entry)
+
+    remainingArgs.set(entry, derefKey)
+
+    return entry
+  }
+
+  // The tagged entries, by tag (see `invalidateTag()`), and the tags of each one of them.
+  const taggedEntries = new Map<MemoizeTagType, Set<MemoizeCacheEntryType<T>>>()
+  const entryTags = new Map<MemoizeCacheEntryType<T>, MemoizeTagType[]>()
+
+  const tagCacheEntry = (
+    entry: MemoizeCacheEntryType<T>,
+    tagList: MemoizeTagType[],
+  ) => {
+    const uniqueTags = [...new Set(tagList)]
+
+    if (uniqueTags.length === 0) return
+
+    entryTags.set(entry, uniqueTags)
+
+    for (const tag of uniqueTags) {
+      const entries = taggedEntries.get(tag)
+
+      if (entries) entries.add(entry)
+      else taggedEntries.set(tag, new Set([entry]))
+    }
+  }
+
+  const untagCacheEntry = (entry: MemoizeCacheEntryType<T>) => {
+    for (const tag of entryTags.get(entry) ?? []) {
+      const entries = taggedEntries.get(tag)!
+
+      entries.delete(entry)
+
+      if (entries.size === 0) taggedEntries.delete(tag)
+    }
+
+    entryTags.delete(entry)
+  }
+
+  // The dependencies each entry was calculated under: the version returned by the `deps` option and the
+  // atoms read by the calculation (if any).
+  const entryVersions = new Map<MemoizeCacheEntryType<T>, unknown>()
+  const entryAtomReads = new Map<MemoizeCacheEntryType<T>, AtomReadsType>()
+
+  // The (approximate) size of each entry, only needed under a `maxBytes` budget (or else a registry's).
+  const trackBytes =
+    maxBytes !== Infinity ||
+    (registryData !== undefined && registryData.options.maxBytes !== Infinity)
+  const entryBytes = new Map<MemoizeCacheEntryType<T>, number>()
+  let totalBytes = 0
+
+  // The errors thrown by `fn`, for the entries caching them instead of values (see `cacheErrors`). Such
+  // entries hold no values, so they are invisible to all callbacks which take values.
+  const entryErrors = new Map<MemoizeCacheEntryType<T>, unknown>()
+
+  // Whether a thrown error gets cached, according to the `cacheErrors` option alone.
+  const isCacheableError = (args: unknown[], error: unknown) =>
+    typeof cacheErrors === 'function'
+      ? cacheErrors(args, error)
+      : Boolean(cacheErrors)
+
+  // Rejections (and errors thrown by replayed iterators) follow the very same policy, or else, without one,
+  // the `cacheRejections` option.
+  const isCacheableRejection = (args: unknown[], error: unknown) =>
+    cacheErrors === undefined
+      ? async && cacheRejections
+      : isCacheableError(args, error)
+
+  // Snapshots of the cached keys, only needed for detecting mutations.
+  const keySnapshots = new Map<MemoizeCacheEntryType<T>, unknown[]>()
+
+  // A mutated key may no longer be found (or, even worse, be found by other arguments), wherever it is
+  // stored, so every single one of them gets checked against its snapshot.
+  const checkMutations = () => {
+    for (const [entry, snapshot] of keySnapshots) {
+      if (isCollected(entry)) continue
+
+      const [mismatch] = explainWithRules(
+        snapshot,
+        entry.key,
+        STRICT_COMPARATOR_OPTIONS,
+        false,
+      )
+
+      if (mismatch)
+        throw new Error(
+          `Cached arguments have been mutated (${mismatch.path || '<arguments>'}: ${mismatch.reason})`,
+        )
+    }
+  }
+
+  // Values are either frozen once and for all, before being cached, or else cloned whenever they are
+  // returned. In async mode, it is the values promises resolve to which get frozen (or cloned), instead.
+  const protect = (value: T, protection: <V>(value: V) => V): T =>
+    async && isPromiseLike(value)
+      ? (value.then(protection) as T)
+      : protection(value)
+
+  const sizeOfEntry = (key: unknown[], value: T) =>
+    !trackBytes ? 0 : sizeOf ? sizeOf(key, value) : estimateSize([key, value])
+
+  const addCacheEntry = (
+    entry: MemoizeCacheEntryType<T>,
+    hash: number | string | symbol | undefined,
+    bytes: number,
+    version = deps?.(entry.key),
+    atomReads?: AtomReadsType,
+  ) => {
+    store.set(entry, hash)
+
+    if (trackBytes) {
+      entryBytes.set(entry, bytes)
+      totalBytes += bytes
+    }
+
+    if (deps) entryVersions.set(entry, version)
+    if (detectMutations) keySnapshots.set(entry, cloneValue(entry.key))
+    if (atomReads?.size) entryAtomReads.set(entry, atomReads)
+    policy.onSet?.(entry)
+
+    if (entryErrors.has(entry)) return
+
+    if (tags) tagCacheEntry(entry, tags(entry.key, entry.value))
+
+    onSet?.(entry.key, entry.value)
+  }
+
+  // Returns whether the entry was still cached.
+  const deleteCacheEntry = (
+    entry: MemoizeCacheEntryType<T>,
+    reason: RemovalReasonType | 'collected',
+  ) => {
+    if (!store.delete(entry)) return false
+
+    registry?.unregister(entry)
+    untagCacheEntry(entry)
+    entryVersions.delete(entry)
+    entryAtomReads.delete(entry)
+    keySnapshots.delete(entry)
+    totalBytes -= entryBytes.get(entry) ?? 0
+    entryBytes.delete(entry)
+
+    if (reason !== 'cleared') stats.evictions++
+
+    policy.onDelete?.(entry)
+
+    if (entryErrors.delete(entry)) return true
+
+    // Entries which lost any of their arguments (or their value) are reported apart, no matter what
+    // removed them, since they could never be handed to `onEvict()` with all their arguments.
+    if (isCollected(entry))
+      onCollect?.(remainingArgs.get(entry)?.() ?? [], entry.value)
+    else if (reason !== 'collected') onEvict?.(entry.key, entry.value, reason)
+
+    return true
+  }
+
+  // Expired entries may still be served for a while (see `staleWhileRevalidate`), while being refreshed.
+  // Cached errors, though, are never refreshed.
+  const isExpired = (entry: MemoizeCacheEntryType<T>) =>
+    entry.expiresAt !== undefined &&
+    entry.expiresAt + (entryErrors.has(entry) ? 0 : staleWhileRevalidate) <=
+      clock()
+
+  const needsRefresh = ({ expiresAt }: MemoizeCacheEntryType<T>) =>
+    expiresAt !== undefined && expiresAt <= clock()
+
+  const isCollected = (entry: MemoizeCacheEntryType<T>) =>
+    entry.key === COLLECTED_KEY
+
+  // Whether an entry has been calculated under older dependencies (as of the current `version`).
+  const isStale = (entry: MemoizeCacheEntryType<T>, version: unknown) => {
+    const atomReads = entryAtomReads.get(entry)
+
+    return (
+      (deps !== undefined &&
+        !compareValues(entryVersions.get(entry), version)) ||
+      (atomReads !== undefined && haveAtomsChanged(atomReads))
+    )
+  }
+
+  const purgeStale = () => {
+    for (const entry of [...store.entries()].reverse())
+      if (isExpired(entry)) deleteCacheEntry(entry, 'expired')
+      else if (isCollected(entry)) deleteCacheEntry(entry, 'collected')
+      else if (isStale(entry, deps?.(entry.key)))
+        deleteCacheEntry(entry, 'stale')
+  }
+
+  const evictOne = () => {
+    const entries = store.entries()
+    const victim = policy.selectVictim(entries)
+
+    if (DEBUG) console.log('Evicting memoized value for', victim?.key)
+
+    // Fall back to the oldest entry, should the policy be unable to point to a cached one.
+    if (!victim || !deleteCacheEntry(victim, 'evicted'))
+      deleteCacheEntry(entries[entries.length - 1], 'evicted')
+  }
+
+  const isFull = (bytes: number) =>
+    store.size() >= maxSize ||
+    (store.size() > 0 && totalBytes + bytes > maxBytes)
+
+  // Makes room for a new entry (of a given size, in bytes), in case the cache is bounded and already full,
+  // or else the caches in its registry are. Returns whether the entry fits in the budgets at all.
+  const evict = (bytes: number) => {
+    if (bytes > maxBytes) return false
+
+    // Expired (and collected or stale) entries are the first ones to go.
+    if (isFull(bytes)) purgeStale()
+
+    while (isFull(bytes)) evictOne()
+
+    // Functions removed from their registry (see `unregister()`) are no longer bound by its budgets.
+    return (
+      !registryData ||
+      registryData.members.get(name)?.memoizedFn !== memoizedFn ||
+      makeRoomInRegistry(registryData, bytes)
+    )
+  }
+
+  const cacheValue = (
+    key: unknown[],
+    value: T,
+    hash: number | string | symbol | undefined,
+    version: unknown,
+    atomReads: AtomReadsType,
+  ) => {
+    const bytes = sizeOfEntry(key, value)
+
+    // Values which do not fit in the budgets, not even on their own, are never cached.
+    if (!evict(bytes)) return undefined
+
+    const entry = createCacheEntry(key, value, hash)
+    const entryTtl = typeof ttl === 'function' ? ttl(key, value) : ttl
+
+    if (entryTtl !== undefined && entryTtl !== Infinity)
+      entry.expiresAt = clock() + entryTtl
+
+    addCacheEntry(entry, hash, bytes, version, atomReads)
+
+    // The pending promise is cached right away, so concurrent calls with equal arguments share it.
+    // But, unless told otherwise, it must not outlive a rejection (provided it is still cached by then).
+    if (async && isPromiseLike(value))
+      value.then(undefined, error => {
+        if (!isCacheableRejection(key, error)) {
+          if (DEBUG) console.log('Evicting rejected memoized value for', key)
+
+          deleteCacheEntry(entry, 'rejected')
+        } else if (errorTtl !== undefined) entry.expiresAt = clock() + errorTtl
+      })
+
+    return entry
+  }
+
+  const cacheError = (
+    key: unknown[],
+    error: unknown,
+    hash: number | string | symbol | undefined,
+    version: unknown,
+  ) => {
+    const bytes = trackBytes ? estimateSize([key, error]) : 0
+
+    if (!evict(bytes)) return
+
+    const entry = createCacheEntry(key, undefined as T, hash)
+    const entryTtl = errorTtl ?? (typeof ttl === 'number' ? ttl : undefined)
+
+    if (entryTtl !== undefined && entryTtl !== Infinity)
+      entry.expiresAt = clock() + entryTtl
+
+    entryErrors.set(entry, error)
+    addCacheEntry(entry, hash, bytes, version)
+  }
+
+  // The expired entries being refreshed in the background, so each one of them gets refreshed only once.
+  const refreshingEntries = new Set<MemoizeCacheEntryType<T>>()
+
+  // Recalculates the value of an expired entry, which only gets replaced once the new value is resolved
+  // (provided it is still cached by then). Until then, or should the refresh fail, it keeps on being served.
+  // The hash is the one the entry was found by, never recalculated from its (possibly mutated) arguments.
+  const refresh = (
+    entry: MemoizeCacheEntryType<T>,
+    hash: number | string | symbol | undefined,
+    thisArg: unknown,
+  ) => {
+    if (refreshingEntries.has(entry)) return
+
+    const { key } = entry
+
+    if (DEBUG) console.log('Refreshing memoized value for', key)
+
+    refreshingEntries.add(entry)
+
+    new Promise<[T, AtomReadsType]>(resolve => resolve(compute(thisArg, key)))
+      .then(([value, atomReads]) =>
+        Promise.resolve(value).then(() => {
+          if (deleteCacheEntry(entry, 'expired'))
+            cacheValue(
+              key,
+              protectValues === 'freeze' ? protect(value, deepFreeze) : value,
+              hash,
+              deps?.(key),
+              atomReads,
+            )
+        }),
+      )
+      .catch(error => onRefreshError?.(key, error))
+      .finally(() => refreshingEntries.delete(entry))
+  }
+
+  // A calculation started by an abortable call, along with its (aggregated) abort controller and the number
+  // of callers still waiting for it. Callers without signals simply never stop waiting.
+  type PendingCalculationType = {
+    controller: AbortController
+    waiters: number
+    settled: boolean
+  }
+
+  // The pending calculations, by the entries caching them (if cached at all).
+  const pendingCalculations = new Map<
+    MemoizeCacheEntryType<T>,
+    PendingCalculationType
+  >()
+
+  // Once every caller waiting for a pending calculation has aborted, it gets aborted, too, and its entry
+  // discarded.
+  const stopWaiting = (
+    pending: PendingCalculationType,
+    entry: MemoizeCacheEntryType<T> | undefined,
+    reason: unknown,
+  ) => {
+    if (--pending.waiters > 0 || pending.settled) return
+
+    pending.controller.abort(reason)
+
+    if (entry) {
+      pendingCalculations.delete(entry)
+      deleteCacheEntry(entry, 'aborted')
+    }
+  }
+
+  // The sources of the replaying iterators, by the cached iterators they wrap.
+  const replaySources = new WeakMap<object, ReplaySourceType>()
+
+  // Every caller gets an iterator of its own, replaying the items of the cached iterator. Should the
+  // cached iterator throw, its entry is evicted (unless the error is cacheable), like a rejected promise.
+  const replayFrom = (
+    iterator: T,
+    entry: MemoizeCacheEntryType<T> | undefined,
+    args: unknown[],
+  ) => {
+    let source = replaySources.get(iterator as object)
+
+    if (!source) {
+      source = {
+        iterator: iterator as Iterator<unknown> | AsyncIterator<unknown>,
+        items: [],
+        onError: error => {
+          if (entry && !isCacheableRejection(args, error))
+            deleteCacheEntry(entry, 'rejected')
+        },
+      }
+
+      replaySources.set(iterator as object, source)
+    }
+
+    return (
+      isAsyncIterator(iterator as object)
+        ? replayAsync(source)
+        : replaySync(source)
+    ) as T
+  }
+
+  // A regular function, so `this` gets forwarded to `fn` (it is not part of the cache key, though).
+  const memoizedFn: MemoizeFnType<T> & MemoizeUtilsType<T> = function (
+    this: unknown,
+    ...callArgs
+  ) {
+    const [args, signal] = abortable
+      ? splitSignal(callArgs)
+      : [callArgs, undefined]
+
+    if (signal?.aborted) return Promise.reject(signal.reason) as T
+
+    if (detectMutations) checkMutations()
+
+    let value: T
+    let pending: PendingCalculationType | undefined
+    const hash = hashArgs?.(args)
+    const version = deps?.(args)
+    let entry = findCacheEntry(args, hash)
+
+    // Expired entries are treated as cache misses, and so are the stale ones.
+    if (entry && isExpired(entry)) {
+      if (DEBUG) console.log('Expiring memoized value for', args)
+
+      deleteCacheEntry(entry, 'expired')
+      entry = undefined
+    } else if (entry && isStale(entry, version)) {
+      if (DEBUG) console.log('Discarding stale memoized value for', args)
+
+      deleteCacheEntry(entry, 'stale')
+      entry = undefined
+    }
+
+    if (entry) {
+      if (DEBUG) console.log('Retrieving memoized value for', args)
+
+      stats.hits++
+
+      // Whoever is calling depends on the very same atoms this entry does.
+      const atomReads = entryAtomReads.get(entry)
+
+      if (atomReads) reportAtomReads(atomReads)
+
+      policy.onHit?.(entry)
+
+      // Cached errors are thrown once again, just like the first time.
+      if (entryErrors.has(entry)) throw entryErrors.get(entry)
+
+      value = entry.value
+      pending = pendingCalculations.get(entry)
+
+      onHit?.(args, value)
+
+      if (staleWhileRevalidate > 0 && needsRefresh(entry))
+        refresh(entry, hash, this)
+    } else {
+      stats.misses++
+
+      // The original function gets a signal of its own, aborted only once all waiting callers have aborted.
+      const controller = signal ? new AbortController() : undefined
+
+      let computed: [T, AtomReadsType]
+
+      try {
+        computed = compute(
+          this,
+          controller ? [...callArgs.slice(0, -1), controller.signal] : callArgs,
+        )
+      } catch (error) {
+        if (isCacheableError(args, error))
+          cacheError(cloneArgs ? cloneValue(args) : args, error, hash, version)
+
+        throw error
+      }
+
+      const [computedValue, atomReads] = computed
+
+      value =
+        protectValues === 'freeze'
+          ? protect(computedValue, deepFreeze)
+          : computedValue
+
+      onMiss?.(args, value)
+
+      entry = cacheValue(
+        cloneArgs ? cloneValue(args) : args,
+        value,
+        hash,
+        version,
+        atomReads,
+      )
+
+      // Even if not cached (e.g. too big for the budget), the calculation can still be aborted by its caller.
+      if (controller && isPromiseLike(value)) {
+        const calculation = { controller, waiters: 0, settled: false }
+        const calculationEntry = entry
+
+        const settle = () => {
+          calculation.settled = true
+
+          if (calculationEntry) pendingCalculations.delete(calculationEntry)
+        }
+
+        if (calculationEntry)
+          pendingCalculations.set(calculationEntry, calculation)
+
+        value.then(settle, settle)
+        pending = calculation
+      }
+    }
+
+    if (replay) return replayFrom(value, entry, args)
+
+    const result =
+      protectValues === 'clone' ? protect(value, cloneValue) : value
+
+    if (pending) pending.waiters++
+
+    if (!signal || !isPromiseLike(result)) return result
+
+    // Only the aborting caller stops waiting (and gets rejected), while the other ones keep on waiting.
+    const waitedCalculation = pending
+    const waitedEntry = entry
+
+    return raceSignal(result, signal, () => {
+      if (waitedCalculation)
+        stopWaiting(waitedCalculation, waitedEntry, signal.reason)
+    }) as T
+  }
+
+  memoizedFn.clearAll = () => {
+    store.entries().forEach(entry => registry?.unregister(entry))
+    store.clear()
+    taggedEntries.clear()
+    entryTags.clear()
+    entryVersions.clear()
+    entryAtomReads.clear()
+    entryErrors.clear()
+    keySnapshots.clear()
+    entryBytes.clear()
+    totalBytes = 0
+
+    policy.onClear?.()
+    onClear?.()
+  }
+
+  // Always available, since `fn.length` does not count optional, default or rest parameters. It gets
+  // hidden (by TS) only for functions without any parameters.
+  memoizedFn.clearEntry = (...args: unknown[]) => {
+    const entry = findCacheEntry(abortable ? splitSignal(args)[0] : args)
+
+    if (entry) deleteCacheEntry(entry, 'cleared')
+  }
+
+  // Entries whose arguments (or value) have been garbage-collected, in weak mode, are not worth asking about.
+  memoizedFn.clearWhere = predicate => {
+    for (const entry of [...store.entries()])
+      if (
+        !isCollected(entry) &&
+        !entryErrors.has(entry) &&
+        predicate(entry.key, entry.value)
+      )
+        deleteCacheEntry(entry, 'cleared')
+  }
+
+  memoizedFn.invalidateTag = tag => {
+    for (const entry of [...(taggedEntries.get(tag) ?? [])])
+      deleteCacheEntry(entry, 'cleared')
+  }
+
+  // For debugging purposes only: finds the cached entry with the fewest mismatches (as explained by the
+  // comparison rules in use, or else by the default ones).
+  memoizedFn.explainMiss = (...args: unknown[]) => {
+    const rules =
+      (comparisonFn && comparatorRules.get(comparisonFn)) ??
+      DEFAULT_COMPARATOR_OPTIONS
+
+    let nearestEntry: MemoizeNearestEntryType<T> | undefined
+
+    for (const entry of store.entries()) {
+      const { key, value, expiresAt } = entry
+
+      if (isCollected(entry)) continue
+
+      const mismatches = explainWithRules(key, args, rules, true)
+
+      if (!nearestEntry || mismatches.length < nearestEntry.mismatches.length)
+        nearestEntry = { key, value, expiresAt, mismatches }
+    }
+
+    return nearestEntry
+  }
+
+  // Entries are exported (and imported) newest first, along with their expiration timestamps. Cached errors
+  // are left out, though.
+  memoizedFn.exportCache = () =>
+    serialize(
+      store
+        .entries()
+        .filter(entry => !isCollected(entry) && !entryErrors.has(entry))
+        .map(({ key, value, expiresAt }) => ({ key, value, expiresAt })),
+    )
+
+  memoizedFn.importCache = (snapshot, options) => {
+    const entries = deserialize(snapshot, options) as MemoizeCacheType<T>
+
+    for (const { key, value, expiresAt } of [...entries].reverse()) {
+      const hash = hashArgs?.(key)
+      const entry = createCacheEntry(
+        key,
+        protectValues === 'freeze' ? protect(value, deepFreeze) : value,
+        hash,
+      )
+
+      if (expiresAt !== undefined) entry.expiresAt = expiresAt
+
+      if (isExpired(entry)) continue
+
+      const existingEntry = findCacheEntry(key, hash)
+
+      // Imported entries replace the cached ones with equal keys.
+      if (existingEntry) deleteCacheEntry(existingEntry, 'cleared')
+
+      const bytes = sizeOfEntry(key, value)
+
+      if (evict(bytes)) addCacheEntry(entry, hash, bytes)
+    }
+  }
+
+  memoizedFn.getCache = () => store.entries()
+
+  memoizedFn.getStats = () => {
+    const calls = stats.hits + stats.misses
+
+    return {
+      ...stats,
+      hitRatio: calls > 0 ? stats.hits / calls : 0,
+      size: store.size(),
+      ...(trackBytes ? { bytes: totalBytes } : {}),
+    }
+  }
+
+  memoizedFn.resetStats = () => {
+    stats.hits = stats.misses = stats.evictions = stats.computeTime = 0
+  }
+
+  registryData?.members.set(name, {
+    memoizedFn,
+    bytes: () => totalBytes,
+    purgeStale,
+    evictOne,
+  })
+
+  return memoizedFn
+}
+
+/**
+ * A function that memoizes a recursive function written in open-recursion style, i.e. one which receives
+ * the function to recurse into as its 1st parameter, `self`, which is always the memoized function itself.
+ * So every recursive call benefits from memoization, without the function having to refer to its own
+ * memoized version by name. The type of `self` (i.e. the signature of the recursive function) must be
+ * annotated, just like recursive functions need their return types annotated, or else supplied as the
+ * type argument, e.g. `memoizeRecursive<(n: number) => number>((self, n) => …)`.
+ *
+ * @template F - The type of the recursive function, without `self` (inferred automatically by TS from the
+ * type of `self`).
+ * @param {(self: F, ...args: Parameters<F>) => ReturnType<F>} fn - The function to be memoized.
+ * @param {comparisonFnType<Parameters<F>> | MemoizeOptionsType<ReturnType<F>, Parameters<F>>} [comparisonFnOrOptions] - The very same options accepted by `memoize()`.
+ * @returns {MemoizedFnType<F>} - The memoized function with additional utility methods.
+ */
+
+export const memoizeRecursive = <F extends (...args: never[]) => unknown>(
+  fn: (self: F, ...args: Parameters<F>) => ReturnType<F>,
+  comparisonFnOrOptions?: NoInfer<
+    | comparisonFnType<Parameters<F>>
+    | MemoizeOptionsType<ReturnType<F>, Parameters<F>>
+  >,
+): MemoizedFnType<F> =>
+  memoizeFixedPoint<F>(
+    self => ((...args: Parameters<F>) => fn(self, ...args)) as F,
+    comparisonFnOrOptions,
+  )
+
+/**
+ * A function that memoizes the fixed point of a function factory, i.e. of a function which receives the
+ * function to recurse into, `self`, and returns the recursive function itself (e.g.
+ * `self => n => n <= 1 ? n : self(n - 1) + self(n - 2)`). That is how existing functions written in
+ * open-recursion style, which cannot be redefined, get memoized on every recursive call.
+ *
+ * @template F - The type of the recursive function (inferred automatically by TS from the type of `self`).
+ * @param {(self: F) => F} makeFn - The function factory, called only once.
+ * @param {comparisonFnType<Parameters<F>> | MemoizeOptionsType<ReturnType<F>, Parameters<F>>} [comparisonFnOrOptions] - The very same options accepted by `memoize()`.
+ * @returns {MemoizedFnType<F>} - The memoized function with additional utility methods.
+ */
+
+export const memoizeFixedPoint = <F extends (...args: never[]) => unknown>(
+  makeFn: (self: F) => F,
+  comparisonFnOrOptions?: NoInfer<
+    | comparisonFnType<Parameters<F>>
+    | MemoizeOptionsType<ReturnType<F>, Parameters<F>>
+  >,
+): MemoizedFnType<F> => {
+  // Recursive calls only happen once `memoizedFn` has been initialized.
+  const memoizedFn: MemoizedFnType<F> = memoize(
+    makeFn(((...args: Parameters<F>) => memoizedFn(...args)) as F),
+    comparisonFnOrOptions,
+  )
+
+  return memoizedFn
+}
+
+// The per-instance memoized functions behind every method (or getter) memoized by `memoizeMethod()`.
+const memoizedMethods = new WeakMap<
+  (...args: never[]) => unknown,
+  (instance: object) => unknown
+>()
+
+/**
+ * A function that memoizes a method (or getter), just like `memoize()` does for plain functions, except
+ * that every instance gets a cache of its own, created on its first call, and `this` is preserved. The
+ * utility methods of each instance's cache are available through `memoizedMember()`.
+ *
+ * @template F - The type of the method to be memoized, including its `this` parameter, if any (always
+ * inferred automatically by TS).
+ * @param {F} method - The method (or getter) to be memoized.
+ * @param {comparisonFnType<Parameters<F>> | MemoizeOptionsType<ReturnType<F>, Parameters<F>>} [comparisonFnOrOptions] - The very same options accepted by `memoize()`, except for a custom `store` or `evictionPolicy` object, which would end up shared by all instances, and for `registry`, since all instances would be registered under the same name.
+ * @returns {F} - The memoized method, to take the place of the original one.
+ */
+
+export const memoizeMethod = <F extends (...args: never[]) => unknown>(
+  method: F,
+  comparisonFnOrOptions?: NoInfer<
+    | comparisonFnType<Parameters<F>>
+    | MemoizeOptionsType<ReturnType<F>, Parameters<F>>
+  >,
+): F => {
+  if (
+    typeof comparisonFnOrOptions === 'object' &&
+    (comparisonFnOrOptions.store ||
+      typeof comparisonFnOrOptions.evictionPolicy === 'object')
+  )
+    throw new Error(
+      'Custom `store` and `evictionPolicy` objects cannot be shared by the instances of a memoized method',
+    )
+
+  // Every instance would try to register a function of its own, under the very same name.
+  if (
+    typeof comparisonFnOrOptions === 'object' &&
+    comparisonFnOrOptions.registry
+  )
+    throw new Error('The instances of a memoized method cannot join a registry')
+
+  type InstanceFnType = MemoizedFnType<MethodFnType>
+  type MethodFnType = (...args: Parameters<F>) => ReturnType<F>
+
+  // Instances are held weakly, so their caches go away along with them.
+  const instanceFns = new WeakMap<object, InstanceFnType>()
+
+  const forInstance = (instance: object) => {
+    let instanceFn = instanceFns.get(instance)
+
+    if (!instanceFn) {
+      instanceFn = memoize<MethodFnType>(
+        (...args: Parameters<F>) =>
+          method.apply(instance, args) as ReturnType<F>,
+        comparisonFnOrOptions,
+      )
+      instanceFns.set(instance, instanceFn)
+    }
+
+    return instanceFn
+  }
+
+  const memoizedMethod = function (this: object, ...args: Parameters<F>) {
+    // Detached methods (e.g. `const { method } = instance`) have no instance to keep a cache for.
+    if (!isObject(this))
+      throw new TypeError('Memoized methods must be called on an instance')
+
+    return forInstance(this)(...args)
+  } as F
+
+  memoizedMethods.set(memoizedMethod, forInstance)
+
+  return memoizedMethod
+}
+
+/**
+ * A (TS 5 standard) decorator factory, which memoizes methods and getters through `memoizeMethod()`, so
+ * every instance gets a cache of its own. Memoized getters become lazily calculated properties. Since
+ * decorators are evaluated before the decorated member is known, the options can only have their types
+ * inferred from an explicit type argument, e.g. `@memoized<Portfolio['total']>({ maxSize: 10 })`.
+ *
+ * @template F - The type of the method to be memoized (or else of a function returning the getter's type).
+ * @param {comparisonFnType<Parameters<F>> | MemoizeOptionsType<ReturnType<F>, Parameters<F>>} [comparisonFnOrOptions] - The same options accepted by `memoizeMethod()`.
+ * @returns The decorator itself.
+ */
+
+export const memoized =
+  <F extends (...args: never[]) => unknown = (...args: never[]) => unknown>(
+    comparisonFnOrOptions?:
+      | comparisonFnType<Parameters<F>>
+      | MemoizeOptionsType<ReturnType<F>, Parameters<F>>,
+  ) =>
+  <This extends object, V extends F>(
+    member: V,
+    context:
+      ClassMethodDecoratorContext<This> | ClassGetterDecoratorContext<This>,
+  ): V => {
+    // Only reachable from JS, since TS rejects any other kind of class member at compile-time.
+    if (context.kind !== 'method' && context.kind !== 'getter')
+      throw new TypeError('Only methods and getters can be memoized')
+
+    return memoizeMethod<V>(
+      member,
+      comparisonFnOrOptions as MemoizeOptionsType<ReturnType<V>, Parameters<V>>,
+    )
+  }
+
+/**
+ * A function that returns the memoized function behind a memoized method (or getter) of an instance,
+ * along with all its utility methods (e.g. `clearAll()`, `clearEntry()` and `getCache()`), which only
+ * affect the cache of that very instance.
+ *
+ * @template O - The type of the instance (always inferred automatically by TS).
+ * @template K - The name of the method or getter (always inferred automatically by TS).
+ * @param {O} instance - The instance.
+ * @param {K} name - The name of the method or getter, memoized by `memoizeMethod()` or `@memoized()`.
+ * @returns {MemoizedMemberType<O[K]>} - The instance's memoized function.
+ */
+
+export const memoizedMember = <O extends object, K extends keyof O>(
+  instance: O,
+  name: K,
+): MemoizedMemberType<O[K]> => {
+  // Look for the member itself throughout the prototype chain, since getters cannot be simply read.
+  for (
+    let object: object | null = instance;
+    object;
+    object = Object.getPrototypeOf(object)
+  ) {
+    const descriptor = Object.getOwnPropertyDescriptor(object, name)
+
+    if (descriptor) {
+      const forInstance = memoizedMethods.get(
+        descriptor.get ?? descriptor.value,
+      )
+
+      if (forInstance) return forInstance(instance) as MemoizedMemberType<O[K]>
+
+      break
+    }
+  }
+
+  throw new TypeError(`\`${String(name)}\` is not a memoized method or getter`)
 }
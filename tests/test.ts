@@ -1,8 +1,34 @@
 import {
   assertEquals,
+  assertInstanceOf,
   assertNotEquals,
+  assertNotStrictEquals,
+  assertRejects,
+  assertStrictEquals,
+  assertThrows,
 } from 'https://deno.land/std@0.224.0/assert/mod.ts'
-import { memoize, compareValues } from '../src/memoize.ts'
+import {
+  memoize,
+  compareValues,
+  explainDifference,
+  memoizeMethod,
+  memoized,
+  memoizedMember,
+  memoizeRecursive,
+  memoizeFixedPoint,
+  createAtom,
+  createRegistry,
+  createComparator,
+  hashValue,
+  estimateSize,
+  cloneValue,
+  deepFreeze,
+  serialize,
+  deserialize,
+  arrayCacheStore,
+  mapCacheStore,
+  CacheStoreType,
+} from '../src/memoize.ts'
 
 Deno.test('Comparing values', () => {
   /////////////////////////////////////
@@ -511,6 +537,179 @@ Deno.test('Comparing values', () => {
     false,
   )
 
+  //////////
+  // Sets //
+  //////////
+
+  assertEquals(compareValues(new Set([1, 2, 3]), new Set([1, 2, 3])), true)
+  assertEquals(compareValues(new Set([1]), new Set([2])), false)
+  assertEquals(compareValues(new Set([1, 2]), new Set([1, 2, 3])), false)
+
+  // Different order.
+  assertEquals(compareValues(new Set([1, 2, 3]), new Set([3, 1, 2])), true)
+
+  // Items compared deeply.
+  assertEquals(
+    compareValues(
+      new Set([{ x: 1 }, [1, 2], new Set(['a'])]),
+      new Set([new Set(['a']), { x: 1 }, [1, 2]]),
+    ),
+    true,
+  )
+  assertEquals(
+    compareValues(new Set([{ x: 1 }, { x: 1 }]), new Set([{ x: 1 }, { x: 2 }])),
+    false,
+  )
+
+  ///////////////////////////////////////////
+  // Typed arrays, ArrayBuffers, DataViews //
+  ///////////////////////////////////////////
+
+  assertEquals(
+    compareValues(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3])),
+    true,
+  )
+  assertEquals(
+    compareValues(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 4])),
+    false,
+  )
+  assertEquals(
+    compareValues(new Float64Array([NaN, 0.5]), new Float64Array([NaN, 0.5])),
+    true,
+  )
+  assertEquals(
+    compareValues(new BigInt64Array([1n, 2n]), new BigInt64Array([1n, 2n])),
+    true,
+  )
+  assertEquals(
+    compareValues<Uint8Array | Int8Array>(
+      new Uint8Array([1, 2, 3]),
+      new Int8Array([1, 2, 3]),
+    ),
+    false,
+  )
+  assertEquals(
+    compareValues(
+      new Uint8Array([1, 2, 3]).buffer,
+      new Uint8Array([1, 2, 3]).buffer,
+    ),
+    true,
+  )
+  assertEquals(
+    compareValues(new Uint8Array([1, 2]).buffer, new Uint8Array([1, 3]).buffer),
+    false,
+  )
+  assertEquals(
+    compareValues(
+      new DataView(new Uint8Array([0, 1, 2]).buffer, 1),
+      new DataView(new Uint8Array([1, 2]).buffer),
+    ),
+    true,
+  )
+  assertEquals(
+    compareValues(
+      new DataView(new Uint8Array([0, 1, 2]).buffer),
+      new DataView(new Uint8Array([1, 2]).buffer),
+    ),
+    false,
+  )
+
+  ////////////
+  // Errors //
+  ////////////
+
+  assertEquals(compareValues(new Error('Oops!'), new Error('Oops!')), true)
+  assertEquals(compareValues(new Error('Oops!'), new Error('Ouch!')), false)
+  assertEquals(
+    compareValues<Error>(new Error('Oops!'), new TypeError('Oops!')),
+    false,
+  )
+  assertEquals(
+    compareValues(
+      Object.assign(new Error('Oops!'), { code: 1 }),
+      Object.assign(new Error('Oops!'), { code: 2 }),
+    ),
+    false,
+  )
+  assertEquals(
+    compareValues(
+      new Error('Oops!', { cause: { id: 1 } }),
+      new Error('Oops!', { cause: { id: 1 } }),
+    ),
+    true,
+  )
+  assertEquals(
+    compareValues(
+      new Error('Oops!', { cause: { id: 1 } }),
+      new Error('Oops!', { cause: { id: 2 } }),
+    ),
+    false,
+  )
+
+  //////////////////////
+  // Boxed primitives //
+  //////////////////////
+
+  assertEquals(compareValues(new Number(1), new Number(1)), true)
+  assertEquals(compareValues(new Number(1), new Number(2)), false)
+  assertEquals(compareValues(new Number(NaN), new Number(NaN)), true)
+  assertEquals(compareValues(new String('abc'), new String('abc')), true)
+  assertEquals(compareValues(new String('abc'), new String('abd')), false)
+  assertEquals(compareValues(new Boolean(true), new Boolean(false)), false)
+  assertEquals(compareValues(Object(1n), Object(1n)), true)
+  assertEquals(compareValues(Object(1n), Object(2n)), false)
+  assertEquals(compareValues<unknown>(new Number(1), 1), false)
+
+  //////////
+  // URLs //
+  //////////
+
+  assertEquals(
+    compareValues(
+      new URL('https://example.com/a?b=1'),
+      new URL('https://example.com/a?b=1'),
+    ),
+    true,
+  )
+  assertEquals(
+    compareValues(
+      new URL('https://example.com/a?b=1'),
+      new URL('https://example.com/a?b=2'),
+    ),
+    false,
+  )
+
+  /////////////////////////
+  // BigInts, NaN and -0 //
+  /////////////////////////
+
+  assertEquals(compareValues(10n, 10n), true)
+  assertEquals(compareValues(10n, 11n), false)
+  assertEquals(compareValues<number | bigint>(10n, 10), false)
+  assertEquals(compareValues(NaN, NaN), true)
+  assertEquals(compareValues(NaN, 0), false)
+  assertEquals(compareValues([NaN, { x: NaN }], [NaN, { x: NaN }]), true)
+  assertEquals(compareValues(-0, 0), true)
+
+  /////////////////////////////
+  // Symbol-keyed properties //
+  /////////////////////////////
+
+  const s1 = Symbol('s1')
+  const s2 = Symbol('s2')
+
+  assertEquals(compareValues({ [s1]: 1, a: 2 }, { [s1]: 1, a: 2 }), true)
+  assertEquals(compareValues({ [s1]: 1, a: 2 }, { [s1]: 2, a: 2 }), false)
+  assertEquals(
+    compareValues<object>({ [s1]: 1, a: 2 }, { [s2]: 1, a: 2 }),
+    false,
+  )
+  assertEquals(compareValues<object>({ [s1]: 1, a: 2 }, { a: 2 }), false)
+
+  // Symbols themselves are still compared by identity.
+  assertEquals(compareValues(Symbol('s'), Symbol('s')), false)
+  assertEquals(compareValues(s1, s1), true)
+
   /////////////////
   // All at once //
   /////////////////
@@ -809,3 +1008,2246 @@ Deno.test(
     assertEquals(calculations, 10) // Assures no further calculations were needed.
   },
 )
+
+Deno.test('Memoizing with a bounded cache', () => {
+  let calculations = 0
+
+  const square = (n: number) => (calculations++, n ** 2)
+
+  ///////////////////////////////////
+  // LRU (default) eviction policy //
+  ///////////////////////////////////
+
+  const lru = memoize(square, { maxSize: 2 })
+
+  lru(1)
+  lru(2)
+  lru(1) // Now 2 is the least recently used entry.
+  lru(3) // Evicts 2.
+
+  assertEquals(
+    lru.getCache().map(({ key }) => key),
+    [[3], [1]],
+  )
+
+  calculations = 0
+  lru(1)
+  assertEquals(calculations, 0) // Assures read memoized value.
+  lru(2)
+  assertEquals(calculations, 1) // Assures 2 had been evicted.
+
+  /////////////////////////
+  // LFU eviction policy //
+  /////////////////////////
+
+  const lfu = memoize(square, { maxSize: 2, evictionPolicy: 'lfu' })
+
+  lfu(1)
+  lfu(1)
+  lfu(1) // 1 has 2 hits.
+  lfu(2)
+  lfu(2) // 2 has 1 hit.
+  lfu(3) // Evicts 2.
+
+  assertEquals(
+    lfu.getCache().map(({ key }) => key),
+    [[3], [1]],
+  )
+
+  //////////////////////////
+  // FIFO eviction policy //
+  //////////////////////////
+
+  const fifo = memoize(square, { maxSize: 2, evictionPolicy: 'fifo' })
+
+  fifo(1)
+  fifo(2)
+  fifo(1) // Hits do not matter.
+  fifo(3) // Evicts 1.
+
+  assertEquals(
+    fifo.getCache().map(({ key }) => key),
+    [[3], [2]],
+  )
+
+  ////////////////////////////
+  // Custom eviction policy //
+  ////////////////////////////
+
+  const hits: number[] = []
+
+  // Always evicts the entry with the greatest cached value.
+  const custom = memoize(square, {
+    maxSize: 3,
+    evictionPolicy: {
+      onHit: entry => hits.push(entry.value),
+      selectVictim: cache =>
+        cache.reduce((max, entry) => (entry.value > max.value ? entry : max)),
+    },
+  })
+
+  custom(3)
+  custom(1)
+  custom(2)
+  custom(2)
+  custom(4) // Evicts 3.
+
+  assertEquals(hits, [4])
+  assertEquals(
+    custom.getCache().map(({ key }) => key),
+    [[4], [2], [1]],
+  )
+
+  //////////////////////////////////////////////////////
+  // Options object with a custom comparison function //
+  //////////////////////////////////////////////////////
+
+  const caseInsensitive = memoize((s: string) => s.toUpperCase(), {
+    maxSize: 1,
+    comparisonFn: ([a], [b]) => a.toLowerCase() === b.toLowerCase(),
+  })
+
+  caseInsensitive('abc')
+  caseInsensitive('ABC')
+  assertEquals(caseInsensitive.getCache().length, 1)
+
+  caseInsensitive('xyz')
+  assertEquals(
+    caseInsensitive.getCache().map(({ key }) => key),
+    [['xyz']],
+  )
+})
+
+Deno.test('Memoizing with expiring entries', () => {
+  let now = 0
+  let calculations = 0
+
+  const clock = () => now
+
+  ////////////////
+  // Global TTL //
+  ////////////////
+
+  const double = memoize((n: number) => (calculations++, n * 2), {
+    ttl: 1000,
+    clock,
+  })
+
+  double(1)
+  assertEquals(calculations, 1)
+
+  now = 999
+  double(1)
+  assertEquals(calculations, 1) // Assures read memoized value.
+
+  now = 1000
+  double(1)
+  assertEquals(calculations, 2) // Assures the expired entry was recomputed.
+  assertEquals(double.getCache().length, 1) // Assures the expired entry was replaced.
+
+  now = 1999
+  double(1)
+  assertEquals(calculations, 2) // Assures read (the renewed) memoized value.
+
+  ///////////////////
+  // Per-entry TTL //
+  ///////////////////
+
+  now = 0
+  calculations = 0
+
+  // Negative results expire sooner than positive ones.
+  const negate = memoize((n: number) => (calculations++, -n), {
+    ttl: (_args, value) => (value < 0 ? 100 : Infinity),
+    clock,
+  })
+
+  negate(1)
+  negate(-1)
+  assertEquals(calculations, 2)
+
+  now = 1_000_000
+  negate(-1)
+  assertEquals(calculations, 2) // Assures positive result never expires.
+
+  negate(1)
+  assertEquals(calculations, 3) // Assures negative result has expired.
+
+  ///////////////////////////////////////////////
+  // Expired entries are evicted before others //
+  ///////////////////////////////////////////////
+
+  now = 0
+
+  const bounded = memoize((n: number) => n, {
+    maxSize: 2,
+    ttl: ([n]) => (n === 1 ? 10 : Infinity),
+    clock,
+  })
+
+  bounded(1)
+  bounded(2)
+  bounded(1) // Makes 2 the least recently used entry.
+
+  now = 10
+  bounded(3)
+
+  assertEquals(
+    bounded.getCache().map(({ key }) => key),
+    [[3], [2]],
+  )
+})
+
+Deno.test('Memoizing async functions', async () => {
+  let calculations = 0
+  let shouldFail = true
+
+  const fetchValue = memoize(
+    async (n: number): Promise<number> => {
+      calculations++
+
+      await new Promise(resolve => setTimeout(resolve, 10))
+
+      if (shouldFail) throw new Error(`Failed fetching ${n}`)
+
+      return n * 10
+    },
+    { async: true },
+  )
+
+  ///////////////////////////////////
+  // In-flight promises are shared //
+  ///////////////////////////////////
+
+  const promise1 = fetchValue(1)
+  const promise2 = fetchValue(1)
+
+  assertEquals(promise1 === promise2, true)
+  assertEquals(calculations, 1)
+
+  ////////////////////////////
+  // Rejections are evicted //
+  ////////////////////////////
+
+  const results = await Promise.allSettled([promise1, promise2])
+
+  assertEquals(
+    results.map(({ status }) => status),
+    ['rejected', 'rejected'],
+  )
+  assertEquals(fetchValue.getCache().length, 0)
+
+  shouldFail = false
+
+  assertEquals(await fetchValue(1), 10)
+  assertEquals(calculations, 2)
+
+  assertEquals(await fetchValue(1), 10)
+  assertEquals(calculations, 2) // Assures read memoized value.
+
+  /////////////////////////////////////////
+  // Rejections can be optionally cached //
+  /////////////////////////////////////////
+
+  calculations = 0
+
+  const alwaysFails = memoize(
+    (n: number): Promise<number> => (
+      calculations++, Promise.reject(new Error(`Failed ${n}`))
+    ),
+    { async: true, cacheRejections: true },
+  )
+
+  const rejected = alwaysFails(1)
+
+  await rejected.catch(() => {})
+  assertEquals(alwaysFails(1) === rejected, true) // Assures read memoized (rejected) promise.
+  assertEquals(calculations, 1)
+
+  /////////////////////////////////////////////////////////
+  // Function expressions are just as fine as arrow ones //
+  /////////////////////////////////////////////////////////
+
+  const fetchDouble = memoize(
+    async function (n: number) {
+      return n * 2
+    },
+    { async: true, cacheRejections: true },
+  )
+
+  const double: Promise<number> = fetchDouble(21)
+
+  assertEquals(await double, 42)
+  assertEquals(fetchDouble(21) === double, true)
+
+  // Not available for functions which do not return promises.
+  // @ts-expect-error: `async` must not be set.
+  memoize((n: number) => n, { async: true })
+  memoize(
+    function (n: number) {
+      return n
+    },
+    // @ts-expect-error: `async` must not be set.
+    { async: true },
+  )
+})
+
+Deno.test('Hashing values', () => {
+  // Values considered the same by `compareValues()` must always have the same hash.
+  const sameValues: [unknown, unknown][] = [
+    [0, -0],
+    ['abc', 'abc'],
+    [undefined, undefined],
+    [
+      [1, 2, 3, [4, [5, [6]]]],
+      [1, 2, 3, [4, [5, [6]]]],
+    ],
+    [
+      { x: 1, y: 2, z: 3 },
+      { z: 3, x: 1, y: 2 },
+    ],
+    [
+      [10, 20, 30],
+      { 2: 30, 0: 10, 1: 20 },
+    ],
+    [
+      new Map<unknown, number>([
+        [[10, 20], 1],
+        [{ x: 1, y: 2 }, 2],
+      ]),
+      new Map<unknown, number>([
+        [[10, 20], 1],
+        [{ y: 2, x: 1 }, 2],
+      ]),
+    ],
+    [/xyz/, /xyz/],
+    [new Date(2024, 7, 12), new Date(2024, 7, 12)],
+    [(n: number) => -n, (n: number) => -n],
+  ]
+
+  sameValues.forEach(([left, right]) => {
+    assertEquals(compareValues(left, right), true)
+    assertEquals(hashValue(left), hashValue(right))
+  })
+
+  // Different values will most likely have different hashes.
+  assertNotEquals(hashValue([1, 2, 3]), hashValue([3, 2, 1]))
+  assertNotEquals(hashValue({ x: 1 }), hashValue({ x: 2 }))
+  assertNotEquals(hashValue('1'), hashValue(1))
+  assertNotEquals(
+    hashValue(
+      new Map([
+        ['x', 1],
+        ['y', 2],
+      ]),
+    ),
+    hashValue(
+      new Map([
+        ['x', 2],
+        ['y', 1],
+      ]),
+    ),
+  )
+
+  // Map keys, however, are hashed no matter their order (see `createComparator()`).
+  assertEquals(
+    hashValue(
+      new Map([
+        ['x', 1],
+        ['y', 2],
+      ]),
+    ),
+    hashValue(
+      new Map([
+        ['y', 2],
+        ['x', 1],
+      ]),
+    ),
+  )
+
+  //////////////////////////////
+  // Circular data structures //
+  //////////////////////////////
+
+  type NodeType = { value: number; next?: NodeType }
+
+  // A cycle with 1 node.
+  const a: NodeType = { value: 1 }
+  a.next = a
+
+  // A cycle with 2 (equivalent) nodes.
+  const b1: NodeType = { value: 1 }
+  const b2: NodeType = { value: 1, next: b1 }
+  b1.next = b2
+
+  assertEquals(compareValues(a, b1), true)
+  assertEquals(hashValue(a), hashValue(b1))
+
+  // Nodes referenced by many others (e.g. in a doubly linked list) are not hashed once for every path
+  // leading to them, but at most once for every depth (up to 16 levels), so hashing stays cheap.
+  type DoublyLinkedNodeType = {
+    value: number
+    previous?: DoublyLinkedNodeType
+    next?: DoublyLinkedNodeType
+  }
+
+  let hashedNodes = 0
+
+  const nodes = Array.from(
+    { length: 50 },
+    (_, value) =>
+      new Proxy({ value } as DoublyLinkedNodeType, {
+        ownKeys: target => (hashedNodes++, Reflect.ownKeys(target)),
+      }),
+  )
+
+  nodes.forEach((node, i) => {
+    node.previous = nodes[i - 1]
+    node.next = nodes[i + 1]
+  })
+
+  hashValue(nodes[25])
+
+  assertEquals(hashedNodes <= nodes.length * 16, true)
+
+  // Shared objects still have the same hashes as their copies.
+  const shared = { x: 1 }
+
+  assertEquals(hashValue([shared, shared]), hashValue([{ x: 1 }, { x: 1 }]))
+})
+
+Deno.test('Memoizing with a custom hash function', () => {
+  let calculations = 0
+
+  const fn = memoize((s: string, n: number) => (calculations++, s.repeat(n)), {
+    comparisonFn: ([leftS, leftN], [rightS, rightN]) =>
+      leftS.toLowerCase() === rightS.toLowerCase() && leftN === rightN,
+    hashFn: ([s, n]) => `${s.toLowerCase()}:${n}`,
+  })
+
+  fn('abc', 2)
+  fn('ABC', 2)
+  fn('aBc', 2)
+  assertEquals(calculations, 1)
+
+  fn('abc', 3)
+  assertEquals(calculations, 2)
+
+  fn.clearEntry('ABC', 2)
+  fn('abc', 2)
+  assertEquals(calculations, 3)
+})
+
+Deno.test(
+  'Memoizing functions with optional, default and rest parameters',
+  () => {
+    let calculations = 0
+
+    /////////////////////////////////////
+    // Optional and default parameters //
+    /////////////////////////////////////
+
+    const greet = memoize(
+      (name: string, greeting = 'Hello', punctuation?: string) => (
+        calculations++,
+        `${greeting}, ${name}${punctuation ?? '!'}`
+      ),
+      (
+        [leftName, leftGreeting = 'Hello'],
+        [rightName, rightGreeting = 'Hello'],
+      ) => leftName === rightName && leftGreeting === rightGreeting,
+    )
+
+    assertEquals(greet('John'), 'Hello, John!')
+    assertEquals(greet('John', 'Hello'), 'Hello, John!')
+    assertEquals(calculations, 1) // Assures the default value was taken into account.
+
+    assertEquals(greet('John', 'Hi', '.'), 'Hi, John.')
+    assertEquals(calculations, 2)
+
+    greet.clearEntry('John')
+    greet('John', 'Hello')
+    assertEquals(calculations, 3)
+
+    /////////////////////
+    // Rest parameters //
+    /////////////////////
+
+    calculations = 0
+
+    const sum = memoize(
+      (...numbers: number[]) => (
+        calculations++,
+        numbers.reduce((total, n) => total + n, 0)
+      ),
+    )
+
+    assertEquals(sum(), 0)
+    assertEquals(sum(1, 2, 3), 6)
+    assertEquals(
+      sum(1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16),
+      136,
+    )
+    assertEquals(sum(1, 2, 3), 6)
+    assertEquals(calculations, 3)
+
+    sum.clearEntry(1, 2, 3)
+    assertEquals(sum.getCache().length, 2)
+
+    // Mixed with regular parameters.
+    const join = memoize((separator: string, ...items: string[]) =>
+      items.join(separator),
+    )
+
+    assertEquals(join('-', 'a', 'b', 'c'), 'a-b-c')
+
+    // @ts-expect-error: items must be strings.
+    join('-', 1, 2)
+
+    ////////////////////////////////////
+    // No parameters, no clearEntry() //
+    ////////////////////////////////////
+
+    const random = memoize(() => Math.random())
+
+    // @ts-expect-error: `clearEntry()` is not available for functions without parameters.
+    random.clearEntry()
+  },
+)
+
+Deno.test('Getting cache statistics', () => {
+  const fibonacci = memoize(
+    (n: number): number => (n <= 1 ? n : fibonacci(n - 1) + fibonacci(n - 2)),
+    { maxSize: 5 },
+  )
+
+  assertEquals(fibonacci.getStats(), {
+    hits: 0,
+    misses: 0,
+    hitRatio: 0,
+    size: 0,
+    evictions: 0,
+    computeTime: 0,
+  })
+
+  fibonacci(10)
+
+  const { computeTime, ...stats } = fibonacci.getStats()
+
+  assertEquals(stats, {
+    hits: 8, // fibonacci(8) … fibonacci(1) are each read once from the cache.
+    misses: 11, // fibonacci(10) … fibonacci(0) are each calculated once.
+    hitRatio: 8 / 19,
+    size: 5,
+    evictions: 6,
+  })
+  assertEquals(computeTime >= 0, true)
+
+  fibonacci(10)
+  assertEquals(fibonacci.getStats().hits, 9)
+
+  fibonacci.resetStats()
+
+  assertEquals(fibonacci.getStats(), {
+    hits: 0,
+    misses: 0,
+    hitRatio: 0,
+    size: 5, // Only the statistics are reset, never the cache itself.
+    evictions: 0,
+    computeTime: 0,
+  })
+
+  // Manually cleared entries are not evictions.
+  fibonacci.clearEntry(10)
+  fibonacci.clearAll()
+  assertEquals(fibonacci.getStats().evictions, 0)
+})
+
+Deno.test('Observing the cache through lifecycle callbacks', () => {
+  let now = 0
+  const events: string[] = []
+
+  const repeat = memoize((s: string, n: number) => s.repeat(n), {
+    maxSize: 2,
+    ttl: ([s]) => (s === 'z' ? 10 : Infinity),
+    clock: () => now,
+    onHit: ([s, n], value) => events.push(`hit ${s}×${n} = ${value}`),
+    onMiss: ([s, n], value) => events.push(`miss ${s}×${n} = ${value}`),
+    onSet: ([s, n], value) => events.push(`set ${s}×${n} = ${value}`),
+    onEvict: ([s, n], value, reason) =>
+      events.push(`${reason} ${s}×${n} = ${value}`),
+    onClear: () => events.push('clear'),
+  })
+
+  repeat('a', 2)
+  repeat('a', 2)
+  repeat('b', 3)
+  repeat('c', 1) // Evicts `['a', 2]`.
+  repeat.clearEntry('b', 3)
+  repeat('z', 2)
+
+  now = 10
+  repeat('z', 2) // Expired.
+
+  repeat.clearAll()
+
+  assertEquals(events, [
+    'miss a×2 = aa',
+    'set a×2 = aa',
+    'hit a×2 = aa',
+    'miss b×3 = bbb',
+    'set b×3 = bbb',
+    'miss c×1 = c',
+    'evicted a×2 = aa',
+    'set c×1 = c',
+    'cleared b×3 = bbb',
+    'miss z×2 = zz',
+    'set z×2 = zz',
+    'expired z×2 = zz',
+    'miss z×2 = zz',
+    'set z×2 = zz',
+    'clear',
+  ])
+})
+
+Deno.test('Exporting and importing the cache', () => {
+  class Point {
+    constructor(
+      public x: number,
+      public y: number,
+    ) {}
+  }
+
+  const circular: Record<string, unknown> = { name: 'circular' }
+  circular.self = circular
+
+  const values = [
+    undefined,
+    NaN,
+    -0,
+    -Infinity,
+    123n,
+    [1, , 3],
+    new Date(1723431600000),
+    /memo(ize)?/gi,
+    new Map<unknown, unknown>([
+      [{ x: 0 }, 'object key'],
+      [new Date(0), [1, 2, 3]],
+    ]),
+    new Point(1, 2),
+    circular,
+    new Set([1, { x: [2] }]),
+    new Float64Array([NaN, -0, 1.5]),
+    new BigInt64Array([1n, -2n]),
+    new Uint8Array([1, 2, 3]).buffer,
+    new DataView(new Uint8Array([1, 2, 3]).buffer, 1),
+    new URL('https://example.com/users?id=1'),
+    Object.assign(new TypeError('Oops!', { cause: [1, 2] }), { code: 42 }),
+    [new Number(1), new String('abc'), Object(1n)],
+    { [Symbol.for('memoize')]: 1 },
+  ]
+
+  for (const value of values) {
+    const restored = deserialize(serialize(value), { classes: [Point] })
+
+    assertEquals(restored, value)
+    assertEquals(compareValues(restored, value), true)
+  }
+
+  const restoredPoint = deserialize(serialize(new Point(1, 2)), {
+    classes: [Point],
+  })
+  assertInstanceOf(restoredPoint, Point)
+
+  const restoredCircular = deserialize(serialize(circular)) as typeof circular
+  assertStrictEquals(restoredCircular.self, restoredCircular)
+
+  assertThrows(() => serialize(() => 1), TypeError)
+  assertThrows(() => serialize(Symbol('unregistered')), TypeError)
+  assertThrows(() => deserialize(serialize(new Point(1, 2))), Error, 'Point')
+  assertThrows(
+    () =>
+      deserialize(
+        JSON.stringify({
+          format: '@cdandrea/memoize-ts',
+          version: 2,
+          data: null,
+        }),
+      ),
+    Error,
+    'Incompatible',
+  )
+
+  let now = 0
+  let calls = 0
+  const options = {
+    ttl: ([[x]]: [Point[]]) => (x.x > 1 ? 10 : Infinity),
+    clock: () => now,
+  }
+  const sumPoints = (points: Point[]) => {
+    calls++
+
+    return points.reduce((sum, { x, y }) => sum + x + y, 0)
+  }
+
+  const memoSumPoints = memoize(sumPoints, options)
+  memoSumPoints([new Point(1, 2), new Point(3, 4)])
+  memoSumPoints([new Point(2, 2)])
+
+  const snapshot = memoSumPoints.exportCache()
+
+  const otherMemoSumPoints = memoize(sumPoints, options)
+  otherMemoSumPoints.importCache(snapshot, { classes: [Point] })
+  assertEquals(otherMemoSumPoints.getCache(), memoSumPoints.getCache())
+
+  calls = 0
+  assertEquals(otherMemoSumPoints([new Point(1, 2), new Point(3, 4)]), 10)
+  assertEquals(otherMemoSumPoints([new Point(2, 2)]), 4)
+  assertEquals(calls, 0)
+
+  // Expired entries are not imported.
+  now = 10
+  otherMemoSumPoints.clearAll()
+  otherMemoSumPoints.importCache(snapshot, { classes: [Point] })
+  assertEquals(otherMemoSumPoints.getCache().length, 1)
+})
+
+Deno.test('Plugging in a cache store', () => {
+  for (const store of [arrayCacheStore<number>(), mapCacheStore<number>()]) {
+    let calls = 0
+    const square = memoize(
+      (n: number) => {
+        calls++
+
+        return n ** 2
+      },
+      { store, maxSize: 3, evictionPolicy: 'fifo' },
+    )
+
+    ;[1, 2, 3, 1, 4].forEach(n => square(n)) // Evicts `[1]`.
+    assertEquals(calls, 4)
+    assertEquals(square.getCache(), [
+      { key: [4], value: 16 },
+      { key: [3], value: 9 },
+      { key: [2], value: 4 },
+    ])
+    assertEquals(store.size(), 3)
+
+    square.clearEntry(3)
+    assertEquals(
+      store.entries().map(({ key }) => key),
+      [[4], [2]],
+    )
+
+    square.clearAll()
+    assertEquals(store.size(), 0)
+  }
+
+  // A test double which records every operation.
+  const operations: string[] = []
+  const store = arrayCacheStore<string>()
+  const recordingStore: CacheStoreType<string> = {
+    ...store,
+    get: (key, hash, compare) => {
+      operations.push(`get ${key}`)
+
+      return store.get(key, hash, compare)
+    },
+    set: (entry, hash) => {
+      operations.push(`set ${entry.key}`)
+      store.set(entry, hash)
+    },
+    delete: entry => {
+      operations.push(`delete ${entry.key}`)
+
+      return store.delete(entry)
+    },
+    clear: () => {
+      operations.push('clear')
+      store.clear()
+    },
+  }
+
+  const upperCase = memoize((s: string) => s.toUpperCase(), {
+    store: recordingStore,
+  })
+
+  upperCase('a')
+  upperCase('a')
+  upperCase.clearEntry('a')
+  upperCase.clearAll()
+
+  assertEquals(operations, [
+    'get a',
+    'set a',
+    'get a',
+    'get a',
+    'delete a',
+    'clear',
+  ])
+})
+
+Deno.test('Memoizing in weak mode', async () => {
+  type RequestType = { url: string; headers: Record<string, string> }
+
+  let calls = 0
+  const parseRequest = memoize(
+    (request: RequestType, verbose: boolean) => {
+      calls++
+
+      return { path: new URL(request.url).pathname, verbose }
+    },
+    { weak: { args: true, values: result => result.path.length > 1 } },
+  )
+
+  const request = { url: 'https://example.com/users', headers: {} }
+
+  assertEquals(parseRequest(request, false), { path: '/users', verbose: false })
+  assertEquals(parseRequest(request, false), { path: '/users', verbose: false })
+  assertEquals(calls, 1)
+
+  // Arguments are still compared deeply, as long as the original ones are alive.
+  parseRequest({ url: 'https://example.com/users', headers: {} }, false)
+  assertEquals(calls, 1)
+
+  parseRequest({ url: 'https://example.com/', headers: {} }, true)
+  assertEquals(calls, 2)
+
+  assertEquals(parseRequest.getCache(), [
+    {
+      key: [{ url: 'https://example.com/', headers: {} }, true],
+      value: { path: '/', verbose: true },
+    },
+    { key: [request, false], value: { path: '/users', verbose: false } },
+  ])
+
+  parseRequest.clearEntry(request, false)
+  parseRequest(request, false)
+  assertEquals(calls, 3)
+
+  //////////////////////////////////////////////////////////////
+  // Garbage-collected arguments take their entries with them //
+  //////////////////////////////////////////////////////////////
+
+  // Garbage collection can only be forced through the `--expose-gc` V8 flag (see the `test` script).
+  const gc = (globalThis as { gc?: () => void }).gc
+
+  if (!gc) throw new Error('The tests must be run with `--v8-flags=--expose-gc`')
+
+  const collected: [[RequestType | undefined, number | undefined], unknown][] =
+    []
+  const evicted: unknown[] = []
+
+  const urlLength = memoize(
+    (request: RequestType, limit: number) =>
+      Math.min(request.url.length, limit),
+    {
+      weak: true,
+      onEvict: args => evicted.push(args),
+      onCollect: (args, value) => collected.push([args, value]),
+    },
+  )
+
+  // The request below is only referenced from within this function, so it can be collected right after.
+  ;(() => urlLength({ url: 'https://example.com/', headers: {} }, 100))()
+  urlLength(request, 100)
+
+  // Weakly held objects read during a job are kept alive until it ends, and finalization callbacks run
+  // in jobs of their own.
+  for (let i = 0; i < 10 && collected.length === 0; i++) {
+    await new Promise(resolve => setTimeout(resolve, 0))
+    gc()
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+
+  assertEquals(collected, [[[undefined, 100], 20]])
+  assertEquals(evicted, [])
+  assertEquals(urlLength.getCache(), [{ key: [request, 100], value: 25 }])
+})
+
+Deno.test('Creating comparators', () => {
+  // Without options, comparators behave just like `compareValues()`.
+  const compare = createComparator()
+
+  assertEquals(compare({ x: 1, y: [2] }, { y: [2], x: 1 }), true)
+  assertEquals(
+    compare(new Date(2024, 7, 12, 0, 0, 0, 1), new Date(2024, 7, 12)),
+    true,
+  )
+
+  const mapA = new Map([
+    ['x', 1],
+    ['y', 2],
+  ])
+  const mapB = new Map([
+    ['y', 2],
+    ['x', 1],
+  ])
+
+  assertEquals(compare(mapA, mapB), false)
+  assertEquals(createComparator({ mapKeyOrder: false })(mapA, mapB), true)
+  assertEquals(
+    createComparator({ mapKeyOrder: false })(
+      mapA,
+      new Map([
+        ['y', 2],
+        ['x', 2],
+      ]),
+    ),
+    false,
+  )
+
+  assertEquals(
+    createComparator({ objectKeyOrder: true })({ x: 1, y: 2 }, { y: 2, x: 1 }),
+    false,
+  )
+  assertEquals(
+    createComparator({ objectKeyOrder: true })({ x: 1, y: 2 }, { x: 1, y: 2 }),
+    true,
+  )
+
+  class Point {
+    constructor(public x: number) {}
+  }
+  const OtherPoint = class Point {
+    constructor(public x: number) {}
+  }
+
+  assertEquals(compare<object>(new Point(1), new OtherPoint(1)), true)
+  assertEquals(
+    createComparator({ classes: 'prototype' })<object>(
+      new Point(1),
+      new OtherPoint(1),
+    ),
+    false,
+  )
+  assertEquals(
+    createComparator({ classes: 'prototype' })(new Point(1), new Point(1)),
+    true,
+  )
+
+  const makeCounter = (start: number) => () => start + 1
+
+  assertEquals(compare(makeCounter(1), makeCounter(2)), true)
+  assertEquals(
+    createComparator({ functions: 'identity' })(makeCounter(1), makeCounter(2)),
+    false,
+  )
+
+  assertEquals(
+    createComparator({ dates: 'time' })(
+      new Date(2024, 7, 12, 0, 0, 0, 1),
+      new Date(2024, 7, 12),
+    ),
+    false,
+  )
+  assertEquals(
+    createComparator({ dates: 'time' })(
+      new Date(2024, 7, 12),
+      new Date(2024, 7, 12),
+    ),
+    true,
+  )
+
+  assertEquals(compare<unknown>([10, 20], { 0: 10, 1: 20 }), true)
+  assertEquals(
+    createComparator({ arrayLikes: false })<unknown>([10, 20], {
+      0: 10,
+      1: 20,
+    }),
+    false,
+  )
+
+  const shallow = createComparator({ maxDepth: 1 })
+  const shared = [1, 2]
+
+  assertEquals(shallow([shared, 'a'], [shared, 'a']), true)
+  assertEquals(shallow([[1, 2], 'a'], [[1, 2], 'a']), false)
+  assertEquals(createComparator({ maxDepth: 0 })([1], [1]), false)
+
+  // Strict mode changes the defaults of all options, which can still be overridden one by one.
+  const strict = createComparator({ strict: true })
+
+  assertEquals(strict({ x: [1, { y: 2 }] }, { x: [1, { y: 2 }] }), true)
+  assertEquals(strict(-0, 0), false)
+  assertEquals(strict(NaN, NaN), true)
+  assertEquals(strict({ x: 1, y: 2 }, { y: 2, x: 1 }), false)
+  assertEquals(
+    createComparator({ strict: true, objectKeyOrder: false })(
+      { x: 1, y: 2 },
+      { y: 2, x: 1 },
+    ),
+    true,
+  )
+  assertEquals(strict<unknown>([10, 20], { 0: 10, 1: 20 }), false)
+
+  // Comparators can be used as `comparisonFn`, too.
+  let calls = 0
+  const countKeys = memoize(
+    (settings: Map<string, number>) => {
+      calls++
+
+      return settings.size
+    },
+    createComparator({ mapKeyOrder: false }),
+  )
+
+  countKeys(mapA)
+  countKeys(mapB)
+  assertEquals(calls, 1)
+})
+
+Deno.test('Explaining differences', () => {
+  const reports = [
+    { year: 2021, profits: [1, 2] },
+    { year: 2022, profits: [3, 4] },
+    { year: 2023, profits: [5, 6] },
+  ]
+  const changedReports = structuredClone(reports)
+
+  changedReports[2].profits[1] = 7
+
+  assertEquals(explainDifference(reports, structuredClone(reports)), [])
+  assertEquals(explainDifference(reports, changedReports), [
+    { path: '[2].profits[1]', reason: 'value differs', left: 6, right: 7 },
+  ])
+
+  // Differences are described down to Map keys, too.
+  assertEquals(
+    explainDifference(
+      new Map([[{ x: 0 }, 'a']]),
+      new Map([[{ x: 0 }, 'b']]),
+    ).map(({ path, reason }) => [path, reason]),
+    [['<Map key {x:0}>', 'value differs']],
+  )
+
+  // Only the first mismatch is reported, unless all of them are wanted.
+  const left = { a: [1, 2], b: 'x', c: { d: true } }
+  const right = { a: [1, 2, 3], b: 'y', c: { e: true } }
+
+  assertEquals(
+    explainDifference(left, right).map(({ path, reason }) => [path, reason]),
+    [['.a', 'length differs']],
+  )
+  assertEquals(
+    explainDifference(left, right, { all: true }).map(({ path, reason }) => [
+      path,
+      reason,
+    ]),
+    [
+      ['.a', 'length differs'],
+      ['.b', 'value differs'],
+      ['.c.d', 'missing key'],
+      ['.c.e', 'extra key'],
+    ],
+  )
+
+  // Comparison rules can be tweaked as in `createComparator()`.
+  assertEquals(explainDifference({ x: 1, y: 2 }, { y: 2, x: 1 }), [])
+  assertEquals(
+    explainDifference({ x: 1, y: 2 }, { y: 2, x: 1 }, { strict: true }).map(
+      ({ reason }) => reason,
+    ),
+    ['key order differs'],
+  )
+
+  // The memoized function reports the cached entry nearest to some arguments.
+  const totalProfits = memoize((reports: typeof changedReports) =>
+    reports.reduce((total, { profits }) => total + profits[0] + profits[1], 0),
+  )
+
+  assertEquals(totalProfits.explainMiss(reports), undefined)
+
+  const otherReports = structuredClone(changedReports)
+
+  otherReports[0].year = 2020
+  otherReports[1].profits[0] = 8
+
+  totalProfits(reports)
+  totalProfits(otherReports)
+
+  const nearest = totalProfits.explainMiss(changedReports)
+
+  assertEquals(nearest?.key, [reports])
+  assertEquals(nearest?.value, 21)
+  assertEquals(
+    nearest?.mismatches.map(({ path }) => path),
+    ['[0][2].profits[1]'],
+  )
+  assertEquals(totalProfits.explainMiss(reports)?.mismatches, [])
+})
+
+Deno.test('Memoizing with a key function', () => {
+  type User = { id: number; name: string }
+
+  let calls = 0
+  const greet = memoize(
+    (user: User, greeting = 'Hello') => {
+      calls++
+
+      return `${greeting}, ${user.name}!`
+    },
+    { keyFn: ([user, greeting]) => `${user.id}:${greeting ?? 'Hello'}` },
+  )
+
+  assertEquals(greet({ id: 1, name: 'Ann' }), 'Hello, Ann!')
+  assertEquals(greet({ id: 1, name: 'Anne' }), 'Hello, Ann!') // Same key, even if not equal.
+  assertEquals(greet({ id: 1, name: 'Ann' }, 'Hello'), 'Hello, Ann!')
+  assertEquals(greet({ id: 2, name: 'Bob' }, 'Hi'), 'Hi, Bob!')
+  assertEquals(calls, 2)
+
+  assertEquals(greet.getCache(), [
+    { key: [{ id: 2, name: 'Bob' }, 'Hi'], value: 'Hi, Bob!' },
+    { key: [{ id: 1, name: 'Ann' }], value: 'Hello, Ann!' },
+  ])
+
+  // Entries are cleared by any arguments with the same key.
+  greet.clearEntry({ id: 1, name: '' })
+  // @ts-expect-error: the arguments must still have the original types.
+  greet.clearEntry(2, 'Hi')
+  assertEquals(greet.getCache().length, 1)
+
+  greet({ id: 1, name: 'Ann' })
+  assertEquals(calls, 3)
+
+  // Symbols and numbers make good keys, too, as long as the key function is consistent.
+  const admin = Symbol('admin')
+  const permissions = memoize(
+    (role: 'admin' | number) => {
+      calls++
+
+      return role === 'admin' ? ['read', 'write'] : ['read']
+    },
+    { keyFn: ([role]) => (role === 'admin' ? admin : role), maxSize: 2 },
+  )
+
+  calls = 0
+  ;['admin' as const, 1, 'admin' as const, 2, 1].forEach(role =>
+    permissions(role),
+  )
+  assertEquals(calls, 4) // `1` was evicted by `2`, the cache being full.
+  assertEquals(permissions.getStats().size, 2)
+
+  // `NaN` keys match each other, just like `Map` keys do.
+  const parse = memoize((s: string) => (calls++, Number(s)), {
+    keyFn: ([s]) => Number(s),
+  })
+
+  calls = 0
+  parse('abc')
+  parse('xyz')
+  assertEquals(calls, 1)
+  assertEquals(parse.getStats().size, 1)
+
+  // Keys are derived once per call, and never again from the (possibly mutated) cached arguments.
+  let derivations = 0
+  const nameOf = memoize((user: User) => (calls++, user.name), {
+    keyFn: ([user]) => (derivations++, user.id),
+  })
+  const ann = { id: 1, name: 'Ann' }
+
+  calls = 0
+  nameOf(ann)
+  nameOf({ id: 1, name: 'Anne' })
+  nameOf({ id: 1, name: 'Annie' })
+  assertEquals(calls, 1)
+  assertEquals(derivations, 3)
+
+  ann.id = 2
+  assertEquals(nameOf({ id: 1, name: '' }), 'Ann')
+  assertEquals(nameOf({ id: 2, name: 'Bob' }), 'Bob')
+  assertEquals(calls, 2)
+
+  // The same goes for weakly held arguments, even in stores which ignore the keys (i.e. hashes).
+  const scanningStore = arrayCacheStore<string>()
+  const weakNameOf = memoize((user: User) => (calls++, user.name), {
+    keyFn: ([user]) => user.id,
+    weak: true,
+    store: {
+      ...scanningStore,
+      get: (key, _hash, compare) => scanningStore.get(key, undefined, compare),
+    },
+  })
+
+  calls = 0
+  weakNameOf(ann)
+  weakNameOf({ id: 3, name: 'Cid' })
+  ann.id = 4
+  assertEquals(weakNameOf({ id: 2, name: '' }), 'Ann')
+  assertEquals(weakNameOf({ id: 3, name: '' }), 'Cid')
+  assertEquals(calls, 2)
+
+  // The key function rules out any other way of comparing arguments.
+  assertThrows(
+    () =>
+      // @ts-expect-error: `hashFn` must not be set along with `keyFn`.
+      memoize((n: number) => n, { keyFn: ([n]) => n, hashFn: ([n]) => n }),
+    Error,
+    'keyFn',
+  )
+})
+
+Deno.test('Memoizing methods and getters', () => {
+  let calls = 0
+
+  class Portfolio {
+    constructor(public assets: number[]) {}
+
+    @memoized()
+    total(discount: number) {
+      calls++
+
+      return this.assets.reduce((sum, asset) => sum + asset, 0) - discount
+    }
+
+    @memoized()
+    get largest() {
+      calls++
+
+      return Math.max(...this.assets)
+    }
+
+    @memoized<Portfolio['share']>({ keyFn: ([i]) => i, maxSize: 1 })
+    share(i: number) {
+      calls++
+
+      return this.assets[i] / this.total(0)
+    }
+  }
+
+  const small = new Portfolio([1, 2, 3])
+  const large = new Portfolio([10, 20, 30])
+
+  // Every instance has a cache of its own, and `this` is preserved.
+  assertEquals(small.total(1), 5)
+  assertEquals(large.total(1), 59)
+  assertEquals(small.total(1), 5)
+  assertEquals(calls, 2)
+
+  // Getters become lazily calculated properties.
+  assertEquals(small.largest, 3)
+  assertEquals(small.largest, 3)
+  assertEquals(large.largest, 30)
+  assertEquals(calls, 4)
+
+  calls = 0
+  assertEquals(small.share(0), 1 / 6)
+  assertEquals(small.share(0), 1 / 6)
+  assertEquals(small.share(1), 2 / 6) // Evicts `[0]`.
+  assertEquals(calls, 3)
+
+  // The utility methods only affect the cache of a single instance.
+  assertEquals(memoizedMember(small, 'total').getCache(), [
+    { key: [0], value: 6 },
+    { key: [1], value: 5 },
+  ])
+  memoizedMember(small, 'total').clearEntry(1)
+  memoizedMember(large, 'largest').clearAll()
+  assertEquals(memoizedMember(small, 'total').getStats().size, 1)
+  assertEquals(memoizedMember(large, 'total').getStats().size, 1)
+  assertEquals(memoizedMember(small, 'largest').getStats().size, 1)
+  assertEquals(memoizedMember(large, 'largest').getStats().size, 0)
+
+  // @ts-expect-error: `clearEntry()` expects the parameters of `total()`.
+  memoizedMember(small, 'total').clearEntry('1')
+  // @ts-expect-error: getters take no parameters.
+  memoizedMember(small, 'largest').clearEntry()
+  assertThrows(() => memoizedMember(small, 'assets'), TypeError)
+
+  // Without decorators, methods (and getters) can be memoized by `memoizeMethod()`.
+  class Counter {
+    constructor(public step: number) {}
+
+    next = memoizeMethod(function (this: Counter, n: number) {
+      calls++
+
+      return n + this.step
+    })
+  }
+
+  calls = 0
+
+  const byOne = new Counter(1)
+  const byTwo = new Counter(2)
+
+  assertEquals([byOne.next(1), byTwo.next(1), byOne.next(1)], [2, 3, 2])
+  assertEquals(calls, 2)
+  assertEquals(memoizedMember(byTwo, 'next').getCache(), [
+    { key: [1], value: 3 },
+  ])
+
+  // Plain memoized functions forward `this`, too, while sharing a single cache.
+  const scaled = memoize(function (this: { factor: number }, n: number) {
+    return n * this.factor
+  })
+
+  assertEquals(scaled.call({ factor: 2 }, 3), 6)
+  assertEquals(scaled.call({ factor: 10 }, 3), 6)
+
+  // Per-instance caches cannot share a single name in a registry.
+  assertThrows(
+    () =>
+      memoizeMethod((n: number) => n, {
+        registry: createRegistry(),
+        name: 'method',
+      }),
+    Error,
+    'registry',
+  )
+
+  // Detached methods have no instance to keep a cache for.
+  const { total } = small
+
+  assertThrows(() => total(0), TypeError, 'instance')
+})
+
+Deno.test('Memoizing recursive functions in open-recursion style', () => {
+  let calculations = 0
+
+  const factorial = (n: number): number => (n <= 1 ? 1 : n * factorial(n - 1))
+
+  // The memoized function receives itself as its 1st parameter, whose type drives the inference of all others.
+  const memoizedFactorial = memoizeRecursive(
+    (self: (n: number) => number, n) => (
+      calculations++,
+      n <= 1 ? 1 : n * self(n - 1)
+    ),
+    ([a], [b]) => a === b,
+  )
+
+  assertEquals(memoizedFactorial(10), factorial(10))
+  assertEquals(calculations, 10)
+
+  memoizedFactorial(9)
+  assertEquals(calculations, 10) // Assures no further calculations were needed.
+
+  assertEquals(memoizedFactorial(11), factorial(11))
+  assertEquals(calculations, 11)
+
+  // @ts-expect-error: `self` is not part of the memoized function's parameters.
+  memoizedFactorial.clearEntry(memoizedFactorial, 11)
+  memoizedFactorial.clearEntry(11)
+  assertEquals(memoizedFactorial.getStats().size, 10)
+
+  // The type of `self` can be supplied as the type argument, too.
+  const memoizedSum = memoizeRecursive<(items: number[], i?: number) => number>(
+    (self, items, i = 0) =>
+      i < items.length ? items[i] + self(items, i + 1) : 0,
+  )
+
+  assertEquals(memoizedSum([1, 2, 3]), 6)
+  assertEquals(memoizedSum.getStats().misses, 4)
+
+  // An existing function, which receives the function to recurse into, is adapted as is.
+  const openFibonacci =
+    (self: (n: number) => number) =>
+    (n: number): number => (
+      calculations++,
+      n <= 1 ? n : self(n - 1) + self(n - 2)
+    )
+  const fibonacci = (n: number): number =>
+    n <= 1 ? n : fibonacci(n - 1) + fibonacci(n - 2)
+
+  const memoizedFibonacci = memoizeFixedPoint(openFibonacci, { maxSize: 100 })
+
+  calculations = 0
+
+  assertEquals(memoizedFibonacci(4), fibonacci(4))
+  assertEquals(calculations, 5)
+
+  memoizedFibonacci(3)
+  assertEquals(calculations, 5) // Assures no further calculations were needed.
+
+  assertEquals(memoizedFibonacci(40), fibonacci(40))
+  assertEquals(calculations, 41)
+  assertEquals(memoizedFibonacci.getStats().misses, 41)
+})
+
+Deno.test('Clearing entries in bulk', () => {
+  type Order = { userId: number; total: number }
+
+  const removed: unknown[][] = []
+  const summarize = memoize(
+    (userId: number, orders: Order[], currency = 'USD') =>
+      `${currency} ${orders
+        .filter(order => order.userId === userId)
+        .reduce((total, order) => total + order.total, 0)}`,
+    {
+      tags: ([userId, orders]) => [
+        `user:${userId}`,
+        ...orders.map(order => `user:${order.userId}`),
+      ],
+      onEvict: (args, _value, reason) => removed.push([...args, reason]),
+    },
+  )
+
+  const orders = [
+    { userId: 1, total: 10 },
+    { userId: 2, total: 20 },
+  ]
+
+  summarize(1, orders)
+  summarize(2, orders)
+  summarize(1, [], 'EUR')
+  summarize(3, [{ userId: 3, total: 30 }], 'EUR')
+
+  // Predicates receive the (typed) arguments and the cached value.
+  summarize.clearWhere(
+    ([userId, _orders, currency]) => currency === 'EUR' && userId === 1,
+  )
+  // @ts-expect-error: `userId` is a number.
+  summarize.clearWhere(([userId]) => userId === '1')
+  assertEquals(summarize.getStats().size, 3)
+  summarize.clearWhere((_args, value) => value.endsWith(' 30'))
+  assertEquals(
+    summarize.getCache().map(({ key }) => key[0]),
+    [2, 1],
+  )
+
+  // Tags drop every entry which mentions them, and nothing else.
+  summarize(3, [{ userId: 3, total: 30 }], 'EUR')
+  removed.length = 0
+  summarize.invalidateTag('user:2')
+  assertEquals(
+    summarize.getCache().map(({ key }) => key[0]),
+    [3],
+  )
+  assertEquals(removed, [
+    [1, orders, 'cleared'],
+    [2, orders, 'cleared'],
+  ])
+
+  summarize.invalidateTag('user:2') // Nothing left to invalidate.
+  summarize.invalidateTag('user:3')
+  assertEquals(summarize.getStats().size, 0)
+
+  // Tags of evicted (or cleared) entries are forgotten along with them.
+  summarize(1, orders)
+  summarize.clearAll()
+  summarize(2, [])
+  summarize.invalidateTag('user:1')
+  assertEquals(summarize.getStats().size, 1)
+})
+
+Deno.test('Recalculating values when their dependencies change', () => {
+  // Dependencies supplied through the `deps` option, compared with `compareValues()`.
+  const store = { prices: new Map([['apple', 1]]), version: 1, currency: 'USD' }
+  const removed: string[] = []
+
+  let calls = 0
+  const price = memoize(
+    (item: string, quantity: number) => {
+      calls++
+
+      return `${(store.prices.get(item) ?? 0) * quantity} ${store.currency}`
+    },
+    {
+      deps: () => [store.version, store.currency],
+      onEvict: (_args, _value, reason) => removed.push(reason),
+    },
+  )
+
+  assertEquals(price('apple', 2), '2 USD')
+  assertEquals(price('apple', 2), '2 USD')
+  assertEquals(calls, 1)
+
+  store.prices.set('apple', 3)
+  store.version++
+  assertEquals(price('apple', 2), '6 USD')
+  assertEquals(calls, 2)
+  assertEquals(removed, ['stale'])
+
+  store.currency = 'EUR'
+  assertEquals(price('apple', 2), '6 EUR')
+  assertEquals(calls, 3)
+
+  // Dependencies may be specific to the arguments, too.
+  const versions: Record<string, number> = { apple: 1, pear: 1 }
+  const stock = memoize(
+    (item: string) => (calls++, `${item}@${versions[item]}`),
+    {
+      deps: ([item]) => versions[item],
+    },
+  )
+
+  calls = 0
+  stock('apple')
+  stock('pear')
+  versions.pear++
+  assertEquals([stock('apple'), stock('pear')], ['apple@1', 'pear@2'])
+  assertEquals(calls, 3)
+  assertEquals(stock.getStats().evictions, 1)
+
+  // Atoms read while calculating a value are tracked automatically, even through other memoized functions.
+  const rate = createAtom(2)
+  const discount = createAtom(0)
+
+  const convert = memoize((amount: number) => (calls++, amount * rate.get()))
+  const total = memoize(
+    (amounts: number[]) => (
+      calls++,
+      amounts.reduce((sum, amount) => sum + convert(amount), 0) - discount.get()
+    ),
+  )
+
+  calls = 0
+  assertEquals(total([1, 2]), 6)
+  assertEquals(total([1, 2]), 6)
+  assertEquals(calls, 3)
+
+  rate.set(3) // Both `convert()` and (through it) `total()` entries become stale.
+  assertEquals(total([1, 2]), 9)
+  assertEquals(calls, 6)
+
+  discount.update(value => value + 1) // Only `total()` entries become stale.
+  assertEquals(total([1, 2]), 8)
+  assertEquals(calls, 7)
+
+  rate.set(3) // Not a change at all.
+  assertEquals(total([1, 2]), 8)
+  assertEquals(calls, 7)
+
+  // Even when read from a cached entry, an atom still counts as a dependency.
+  assertEquals(total([2]), 6 - 1)
+  assertEquals(calls, 8) // `convert(2)` was already cached.
+  rate.set(1)
+  assertEquals(total([2]), 2 - 1)
+})
+
+Deno.test('Managing memoized functions through a registry', () => {
+  const registry = createRegistry()
+
+  const double = memoize((n: number) => n * 2, { registry, name: 'double' })
+  const square = memoize(
+    function square(n: number) {
+      return n ** 2
+    },
+    { registry },
+  )
+
+  assertEquals(registry.names(), ['double', 'square'])
+  assertStrictEquals(registry.get('double'), double)
+  assertStrictEquals(registry.get('square'), square)
+  assertEquals(registry.get('cube'), undefined)
+
+  // Names must be unique (and present).
+  assertThrows(() => memoize((n: number) => n, { registry, name: 'double' }))
+  assertThrows(() => memoize((n: number) => n, { registry, name: '' }))
+
+  double(1)
+  double(1)
+  square(2)
+  square(3)
+
+  const { computeTime, functions, ...stats } = registry.getStats()
+
+  assertEquals(stats, {
+    hits: 1,
+    misses: 3,
+    hitRatio: 0.25,
+    size: 3,
+    evictions: 0,
+    bytes: 0,
+  })
+  assertEquals(functions.double.size, 1)
+  assertEquals(functions.square.size, 2)
+  assertEquals(computeTime >= 0, true)
+
+  registry.clearAll()
+  assertEquals(registry.getStats().size, 0)
+
+  registry.unregister('double')
+  assertEquals(registry.names(), ['square'])
+
+  // A shared budget of entries evicts from the caches with the lowest hit ratios first.
+  const budget = createRegistry({ maxEntries: 4 })
+  const evicted: string[] = []
+
+  const hot = memoize((n: number) => n, {
+    registry: budget,
+    name: 'hot',
+    onEvict: ([n]) => evicted.push(`hot(${n})`),
+  })
+  const cold = memoize((n: number) => n, {
+    registry: budget,
+    name: 'cold',
+    onEvict: ([n]) => evicted.push(`cold(${n})`),
+  })
+
+  hot(1)
+  hot(1)
+  hot(2)
+  cold(1)
+  cold(2) // The budget is now exhausted.
+  assertEquals(evicted, [])
+
+  hot(3)
+  cold(3)
+  assertEquals(evicted, ['cold(1)', 'cold(2)'])
+  assertEquals(budget.getStats().size, 4)
+
+  // Unregistered functions are no longer bound by the budget (nor do they evict from the others).
+  budget.unregister('cold')
+  hot(4) // The budget is exhausted by `hot()` alone.
+  cold(4)
+  cold(5)
+  assertEquals(evicted, ['cold(1)', 'cold(2)'])
+  assertEquals(cold.getStats().size, 3)
+  assertEquals(budget.getStats().size, 4)
+
+  // So does a budget of (approximate) bytes, which takes both arguments and values into account.
+  const bytesBudget = createRegistry({ maxBytes: 1_500 })
+  const repeat = memoize((s: string, n: number) => s.repeat(n), {
+    registry: bytesBudget,
+    name: 'repeat',
+  })
+
+  repeat('a', 200)
+  repeat('b', 200)
+
+  const { bytes } = bytesBudget.getStats()
+
+  assertEquals(bytes > 2 * 2 * 200 && bytes <= 1_500, true)
+
+  repeat('c', 600) // Evicts both entries above.
+  assertEquals(
+    repeat.getCache().map(({ key }) => key[0]),
+    ['c'],
+  )
+
+  repeat('d', 5_000) // Too large to be cached at all.
+  assertEquals(repeat('d', 5_000).length, 5_000)
+  assertEquals(
+    repeat.getCache().map(({ key }) => key[0]),
+    ['c'],
+  )
+
+  assertThrows(() => createRegistry({ maxEntries: 0 }), RangeError)
+})
+
+Deno.test('Bounding caches by their sizes in bytes', () => {
+  // Sizes are rough estimates, but consistent ones.
+  assertEquals(estimateSize(1), 8)
+  assertEquals(estimateSize('abc'), estimateSize('xyz'))
+  assertEquals(estimateSize('abcd') > estimateSize('abc'), true)
+  assertEquals(estimateSize(new Float64Array(1000)) > 8 * 1000, true)
+  assertEquals(
+    estimateSize(new Map([['a', [1, 2, 3]]])) >
+      estimateSize('a') + estimateSize([1, 2, 3]),
+    true,
+  )
+  assertEquals(
+    estimateSize({ x: 'a', y: new Set([1]) }) > estimateSize({ x: 'a' }),
+    true,
+  )
+
+  // Values referenced more than once (even in cycles) are only counted once.
+  const shared = new Uint8Array(10_000)
+  const cyclic: Record<string, unknown> = { shared }
+
+  cyclic.self = cyclic
+  cyclic.again = shared
+
+  assertEquals(estimateSize(cyclic) < 10_000 + 200, true)
+  assertEquals(
+    estimateSize([new DataView(shared.buffer), shared]) < 10_000 + 200,
+    true,
+  )
+
+  // Both arguments and values count towards the budget.
+  let calls = 0
+  const zeros = memoize(
+    (label: string, n: number) => (calls++, new Uint8Array(n)),
+    { maxBytes: 3_000 },
+  )
+
+  zeros('a', 1_000)
+  zeros('b', 1_000)
+  assertEquals(zeros.getStats().size, 2)
+  assertEquals(zeros.getStats().bytes! > 2_000, true)
+
+  zeros('c', 1_000) // Evicts `a`, the least recently used entry.
+  assertEquals(
+    zeros.getCache().map(({ key }) => key[0]),
+    ['c', 'b'],
+  )
+
+  zeros('d'.repeat(200), 1_000) // Its long label evicts `b`, too.
+  assertEquals(
+    zeros.getCache().map(({ key }) => (key[0] as string).length),
+    [200, 1],
+  )
+  assertEquals(zeros.getStats().bytes! <= 3_000, true)
+
+  // Values which do not fit in the budget, not even on their own, are never cached.
+  calls = 0
+  zeros('e', 5_000)
+  zeros('e', 5_000)
+  assertEquals(calls, 2)
+  assertEquals(zeros.getStats().size, 2)
+
+  // Sizes can be calculated in any other way, too.
+  const repeat = memoize((s: string, n: number) => s.repeat(n), {
+    maxBytes: 10,
+    sizeOf: (_args, value) => value.length,
+  })
+
+  repeat('a', 4)
+  repeat('b', 4)
+  repeat('c', 4) // Evicts `a`.
+  assertEquals(repeat.getStats().bytes, 8)
+  assertEquals(
+    repeat.getCache().map(({ value }) => value),
+    ['cccc', 'bbbb'],
+  )
+
+  // Sizes are not even tracked without a budget.
+  assertEquals(memoize((n: number) => n).getStats().bytes, undefined)
+  assertThrows(() => memoize((n: number) => n, { maxBytes: 0 }), RangeError)
+})
+
+Deno.test('Protecting cached arguments and values from mutations', async () => {
+  // Clones are considered the same as the originals, even by the strictest comparator.
+  class Point {
+    constructor(
+      public x: number,
+      public y: number,
+    ) {}
+  }
+
+  const buffer = new Uint8Array([1, 2, 3, 4])
+  const original: Record<string | symbol, unknown> = {
+    point: new Point(1, 2),
+    map: new Map([[{ id: 1 }, new Set([1, 2])]]),
+    date: new Date(0),
+    regExp: /a+/gi,
+    error: new Error('Oops', { cause: 42 }),
+    bytes: buffer,
+    view: new DataView(buffer.buffer, 1, 2),
+    fn: (n: number) => n,
+    [Symbol.for('key')]: [1, [2, [3]]],
+  }
+  original.self = original
+
+  const clone = cloneValue(original)
+  const strict = createComparator({ strict: true })
+
+  assertEquals(strict([clone], [original]), true)
+  assertNotStrictEquals(clone.point, original.point)
+  assertInstanceOf(clone.point, Point)
+  assertStrictEquals(clone.self, clone)
+  assertStrictEquals(clone.fn, original.fn)
+  assertStrictEquals(
+    (clone.bytes as Uint8Array).buffer,
+    (clone.view as DataView).buffer,
+  )
+  assertEquals((clone.error as Error).cause, 42)
+
+  // Frozen values cannot be changed, not even deep down.
+  const frozen = deepFreeze({ list: [{ n: 1 }], map: new Map([[1, { n: 2 }]]) })
+
+  assertEquals(Object.isFrozen(frozen.list[0]), true)
+  assertEquals(Object.isFrozen(frozen.map.get(1)), true)
+  assertThrows(() => frozen.list.push({ n: 3 }), TypeError)
+
+  // Snapshots of the arguments are cached, so they cannot be changed by callers any longer.
+  let calls = 0
+  const sum = memoize(
+    (numbers: number[]) => {
+      calls++
+
+      return numbers.reduce((total, n) => total + n, 0)
+    },
+    { cloneArgs: true },
+  )
+  const numbers = [1, 2, 3]
+
+  assertEquals(sum(numbers), 6)
+  numbers.push(4)
+  assertEquals(sum(numbers), 10)
+  assertEquals(sum([1, 2, 3]), 6)
+  assertEquals(calls, 2)
+
+  assertThrows(
+    () => memoize((o: object) => o, { cloneArgs: true, weak: true }),
+    Error,
+    'cloneArgs',
+  )
+
+  // Cached values are either frozen or cloned, so callers cannot change them for each other.
+  const createUser = (name: string) => ({ name, roles: ['guest'] })
+
+  const frozenUser = memoize(createUser, { protectValues: 'freeze' })
+
+  assertThrows(() => frozenUser('Alice').roles.push('admin'), TypeError)
+  assertEquals(frozenUser('Alice').roles, ['guest'])
+
+  const clonedUser = memoize(createUser, { protectValues: 'clone' })
+
+  clonedUser('Bob').roles.push('admin')
+  assertEquals(clonedUser('Bob').roles, ['guest'])
+  assertNotStrictEquals(clonedUser('Bob'), clonedUser('Bob'))
+  assertEquals(clonedUser.getStats().misses, 1)
+
+  // In async mode, it is the values promises resolve to which are protected.
+  const fetchUser = memoize(async (name: string) => createUser(name), {
+    async: true,
+    protectValues: 'clone',
+  })
+  const [first, second] = await Promise.all([
+    fetchUser('Carol'),
+    fetchUser('Carol'),
+  ])
+
+  assertEquals(first, second)
+  assertNotStrictEquals(first, second)
+  assertEquals(fetchUser.getStats().misses, 1)
+
+  const fetchFrozenUser = memoize(async (name: string) => createUser(name), {
+    async: true,
+    protectValues: 'freeze',
+  })
+
+  assertEquals(Object.isFrozen((await fetchFrozenUser('Dave')).roles), true)
+
+  // Mutated cached arguments are detected on the next call.
+  const count = memoize(
+    (options: { items: string[] }) => options.items.length,
+    {
+      detectMutations: true,
+    },
+  )
+  const options = { items: ['a', 'b'] }
+
+  assertEquals(count(options), 2)
+  options.items.push('c')
+  assertThrows(() => count({ items: [] }), Error, '[0].items: length differs')
+
+  count.clearAll()
+  assertEquals(count(options), 3)
+})
+
+Deno.test('Serving stale values while revalidating them', async () => {
+  let now = 0
+  let calculations = 0
+  let shouldFail = false
+  const refreshErrors: unknown[] = []
+
+  // Gives pending refreshes the chance to settle.
+  const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+  const fetchPrice = memoize(
+    async (product: string) => {
+      calculations++
+
+      if (shouldFail) throw new Error(`Failed fetching ${product}`)
+
+      return `${product}: ${calculations}`
+    },
+    {
+      async: true,
+      ttl: 1000,
+      staleWhileRevalidate: 500,
+      clock: () => now,
+      onRefreshError: ([product], error) =>
+        refreshErrors.push([product, (error as Error).message]),
+    },
+  )
+
+  assertEquals(await fetchPrice('apple'), 'apple: 1')
+
+  // Fresh values are simply served.
+  now = 999
+  assertEquals(await fetchPrice('apple'), 'apple: 1')
+  assertEquals(calculations, 1)
+
+  // Stale values are served right away, and refreshed in the background, but only once.
+  now = 1000
+  assertEquals(await fetchPrice('apple'), 'apple: 1')
+  assertEquals(await fetchPrice('apple'), 'apple: 1')
+  assertEquals(calculations, 2)
+
+  await settle()
+  assertEquals(await fetchPrice('apple'), 'apple: 2')
+  assertEquals(fetchPrice.getCache()[0].expiresAt, 2000)
+
+  // Refreshes do not count as cache misses, but the stale entries they replace count as expired.
+  const { hits, misses, evictions } = fetchPrice.getStats()
+
+  assertEquals([hits, misses, evictions], [4, 1, 1])
+
+  // Failed refreshes keep stale values around (until they expire), and are reported.
+  now = 2100
+  shouldFail = true
+  assertEquals(await fetchPrice('apple'), 'apple: 2')
+  await settle()
+  assertEquals(refreshErrors, [['apple', 'Failed fetching apple']])
+  assertEquals(await fetchPrice('apple'), 'apple: 2') // Tries again, in vain.
+  await settle()
+  assertEquals(calculations, 4)
+  assertEquals(refreshErrors.length, 2)
+
+  // Beyond the stale window, values are recalculated (and awaited) just like without it.
+  now = 2500
+  shouldFail = false
+  assertEquals(await fetchPrice('apple'), 'apple: 5')
+  assertEquals(calculations, 5)
+
+  // Refreshed values are dropped if the entry is cleared meanwhile.
+  now = 3500
+  assertEquals(await fetchPrice('apple'), 'apple: 5')
+  fetchPrice.clearAll()
+  await settle()
+  assertEquals(fetchPrice.getStats().size, 0)
+
+  assertThrows(
+    () => memoize(async () => 0, { staleWhileRevalidate: 500 }),
+    Error,
+    'requires `ttl`',
+  )
+  assertThrows(
+    () => memoize(async () => 0, { ttl: 1000, staleWhileRevalidate: -1 }),
+    RangeError,
+  )
+})
+Deno.test('Caching thrown errors', async () => {
+  let now = 0
+  let calculations = 0
+  const evictions: unknown[] = []
+
+  const parse = memoize(
+    (json: string) => {
+      calculations++
+
+      if (json === '') throw new RangeError('Nothing to parse')
+
+      return JSON.parse(json)
+    },
+    {
+      cacheErrors: (_args, error) => error instanceof SyntaxError,
+      errorTtl: 100,
+      ttl: 1000,
+      clock: () => now,
+      onEvict: (args, value, reason) => evictions.push([args, value, reason]),
+    },
+  )
+
+  // Cacheable errors are thrown once again (the very same ones) on cache hits.
+  const error = assertThrows(() => parse('{'), SyntaxError)
+
+  assertStrictEquals(
+    assertThrows(() => parse('{'), SyntaxError),
+    error,
+  )
+  assertEquals(calculations, 1)
+  assertEquals(parse.getStats().hits, 1)
+
+  // Other errors are not cached at all.
+  assertThrows(() => parse(''), RangeError)
+  assertThrows(() => parse(''), RangeError)
+  assertEquals(calculations, 3)
+
+  // Cached errors expire sooner than values, and they are invisible to value callbacks.
+  assertEquals(parse('[1]'), [1])
+  now = 100
+  assertThrows(() => parse('{'), SyntaxError)
+  assertEquals(calculations, 5)
+  assertEquals(parse('[1]'), [1])
+  assertEquals(calculations, 5)
+  assertEquals(evictions, [])
+
+  // Neither are they exported.
+  assertEquals(parse.getStats().size, 2)
+  assertEquals(deserialize(parse.exportCache()), [
+    { key: ['[1]'], value: [1], expiresAt: 1000 },
+  ])
+
+  // Rejections follow the very same policy, in async mode.
+  const fetchValue = memoize(
+    async (n: number): Promise<number> => {
+      calculations++
+
+      if (n < 0) throw new RangeError(`Invalid value: ${n}`)
+      if (n > 100) throw new Error(`Failed fetching ${n}`)
+
+      return n * 10
+    },
+    {
+      async: true,
+      cacheErrors: (_args, error) => error instanceof RangeError,
+      errorTtl: 100,
+      ttl: 1000,
+      clock: () => now,
+    },
+  )
+
+  calculations = 0
+  now = 0
+  await assertRejects(() => fetchValue(-1), RangeError)
+  await assertRejects(() => fetchValue(-1), RangeError)
+  assertEquals(calculations, 1)
+  assertEquals(fetchValue.getCache()[0].expiresAt, 100)
+
+  await assertRejects(() => fetchValue(101), Error)
+  await assertRejects(() => fetchValue(101), Error)
+  assertEquals(calculations, 3)
+
+  // `cacheRejections` is just a shorthand, for caching all rejections (but not synchronously thrown errors).
+  calculations = 0
+
+  const loadValue = memoize(
+    (n: number): Promise<number> => {
+      calculations++
+
+      if (n < 0) throw new RangeError(`Invalid value: ${n}`)
+
+      return Promise.reject(new Error(`Failed loading ${n}`))
+    },
+    { async: true, cacheRejections: true },
+  )
+
+  assertThrows(() => loadValue(-1), RangeError)
+  assertThrows(() => loadValue(-1), RangeError)
+  assertEquals(calculations, 2)
+
+  await assertRejects(() => loadValue(1), Error)
+  await assertRejects(() => loadValue(1), Error)
+  assertEquals(calculations, 3)
+
+  assertThrows(
+    () =>
+      memoize(async () => 0, {
+        async: true,
+        cacheRejections: true,
+        cacheErrors: true,
+      }),
+    Error,
+    'cacheRejections',
+  )
+})
+
+Deno.test('Aborting memoized async calls', async () => {
+  const signals: (AbortSignal | undefined)[] = []
+  const evictions: unknown[] = []
+
+  const fetchUser = memoize(
+    (id: number, signal?: AbortSignal) =>
+      new Promise<string>((resolve, reject) => {
+        signals.push(signal)
+
+        const timer = setTimeout(() => resolve(`User #${id}`), 10)
+
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timer)
+          reject(signal.reason)
+        })
+      }),
+    {
+      async: true,
+      abortable: true,
+      onEvict: (args, _value, reason) => evictions.push([args, reason]),
+    },
+  )
+
+  // Signals are not part of the cache key, and the original function gets a signal of its own.
+  const controller1 = new AbortController()
+  const controller2 = new AbortController()
+  const promise1 = fetchUser(1, controller1.signal)
+  const promise2 = fetchUser(1, controller2.signal)
+
+  assertEquals(signals.length, 1)
+  assertNotStrictEquals(signals[0], controller1.signal)
+  assertEquals(fetchUser.getCache()[0].key, [1])
+
+  // Only the aborting caller is rejected, while the other one keeps on waiting.
+  controller1.abort()
+  await assertRejects(() => promise1, DOMException)
+  assertEquals(await promise2, 'User #1')
+  assertEquals(signals[0]!.aborted, false)
+  assertEquals(await fetchUser(1), 'User #1')
+  assertEquals(signals.length, 1)
+
+  // Once all callers have aborted, the calculation is aborted (with the last reason), and discarded.
+  const controller3 = new AbortController()
+  const controller4 = new AbortController()
+  const promise3 = fetchUser(2, controller3.signal)
+  const promise4 = fetchUser(2, controller4.signal)
+
+  controller3.abort()
+  controller4.abort('Not needed any longer')
+  await assertRejects(() => promise3, DOMException)
+  assertEquals(await promise4.catch(reason => reason), 'Not needed any longer')
+  assertEquals(signals[1]!.reason, 'Not needed any longer')
+  assertEquals(evictions, [[[2], 'aborted']])
+  assertEquals(fetchUser.getCache().length, 1)
+
+  // Callers without signals never stop waiting, so neither does the calculation.
+  const controller5 = new AbortController()
+  const promise5 = fetchUser(3, controller5.signal)
+  const promise6 = fetchUser(3)
+
+  controller5.abort()
+  await assertRejects(() => promise5, DOMException)
+  assertEquals(await promise6, 'User #3')
+  assertEquals(signals[2]!.aborted, false)
+
+  // Already aborted signals are rejected right away.
+  await assertRejects(() => fetchUser(4, AbortSignal.abort()), DOMException)
+  assertEquals(signals.length, 3)
+
+  // Trailing `undefined`s are not part of the cache key either, with or without a signal, while the
+  // original function still gets its signal in the very same position.
+  const searches: unknown[][] = []
+
+  const search = memoize(
+    async (query: string, limit?: number, signal?: AbortSignal) => {
+      searches.push([query, limit, signal instanceof AbortSignal])
+
+      return `${query}: ${limit ?? 'all'}`
+    },
+    { async: true, abortable: true },
+  )
+
+  assertEquals(
+    await search('memoize', undefined, new AbortController().signal),
+    'memoize: all',
+  )
+  assertEquals(await search('memoize'), 'memoize: all')
+  assertEquals(await search('memoize', undefined), 'memoize: all')
+  assertEquals(searches, [['memoize', undefined, true]])
+  assertEquals(search.getCache()[0].key, ['memoize'])
+
+  // Calculations can be aborted even when not cached at all (e.g. too big for the budget).
+  const fetchHugeUser = memoize(
+    (id: number, signal?: AbortSignal) =>
+      new Promise<string>((_resolve, reject) => {
+        signals.push(signal)
+        signal?.addEventListener('abort', () => reject(signal.reason))
+      }),
+    { async: true, abortable: true, maxBytes: 1 },
+  )
+  const controller6 = new AbortController()
+  const promise7 = fetchHugeUser(1, controller6.signal)
+
+  assertEquals(fetchHugeUser.getStats().size, 0)
+  controller6.abort()
+  await assertRejects(() => promise7, DOMException)
+  assertEquals(signals[3]!.aborted, true)
+})
+
+Deno.test('Replaying memoized generators', async () => {
+  let pulls = 0
+  let calls = 0
+
+  const range = memoize(
+    function* (from: number, to: number) {
+      calls++
+
+      for (let n = from; n < to; n++) {
+        pulls++
+        yield n
+      }
+
+      return 'done'
+    },
+    { replay: true },
+  )
+
+  // Every caller gets a fresh iterator, replaying the items pulled (just once) so far.
+  assertEquals([...range(0, 5)], [0, 1, 2, 3, 4])
+  assertEquals([...range(0, 5)], [0, 1, 2, 3, 4])
+  assertEquals([calls, pulls], [1, 5])
+
+  // Items are pulled lazily, and partially consumed iterators leave the shared one where they stopped.
+  const iterator1 = range(10, 20)
+  const iterator2 = range(10, 20)
+
+  assertEquals(iterator1.next(), { value: 10, done: false })
+  assertEquals(iterator1.next(), { value: 11, done: false })
+  assertEquals(iterator1.return('stopped'), { value: 'stopped', done: true })
+  assertEquals(pulls, 7)
+  assertEquals(iterator2.next(), { value: 10, done: false })
+  assertEquals(pulls, 7)
+  assertEquals([...iterator2], [11, 12, 13, 14, 15, 16, 17, 18, 19])
+  assertEquals(pulls, 15)
+
+  // Return values are replayed, too.
+  const iterator3 = range(10, 20)
+
+  for (let i = 0; i < 10; i++) iterator3.next()
+  assertEquals(iterator3.next(), { value: 'done', done: true })
+
+  // Errors are replayed after the items pulled before them, and they evict the entry (unless cacheable).
+  let failures = 0
+
+  const countdown = memoize(
+    function* (from: number) {
+      for (let n = from; n >= 0; n--) yield n
+
+      throw new Error(`Failure #${++failures}`)
+    },
+    { replay: true },
+  )
+
+  const items: number[] = []
+
+  assertThrows(
+    () => {
+      for (const n of countdown(2)) items.push(n)
+    },
+    Error,
+    'Failure #1',
+  )
+  assertEquals(items, [2, 1, 0])
+  assertEquals(countdown.getStats().size, 0)
+  assertThrows(() => [...countdown(2)], Error, 'Failure #2')
+
+  // Async generators are replayed just the same, sharing concurrent pulls.
+  let asyncPulls = 0
+
+  const fetchPages = memoize(
+    async function* (count: number) {
+      for (let page = 1; page <= count; page++) {
+        asyncPulls++
+        await new Promise(resolve => setTimeout(resolve, 1))
+        yield `Page #${page}`
+      }
+    },
+    { replay: true },
+  )
+
+  const collect = async (iterator: AsyncIterable<string>) => {
+    const pages: string[] = []
+
+    for await (const page of iterator) pages.push(page)
+
+    return pages
+  }
+
+  const [pages1, pages2] = await Promise.all([
+    collect(fetchPages(3)),
+    collect(fetchPages(3)),
+  ])
+
+  assertEquals(pages1, ['Page #1', 'Page #2', 'Page #3'])
+  assertEquals(pages2, pages1)
+  assertEquals(await collect(fetchPages(3)), pages1)
+  assertEquals(asyncPulls, 3)
+
+  assertThrows(
+    () => memoize(function* () {}, { replay: true, protectValues: 'freeze' }),
+    Error,
+    'replay',
+  )
+
+  // Not available for functions which do not return iterators.
+  // @ts-expect-error: `replay` must not be set.
+  memoize((n: number) => n, { replay: true })
+  memoize(
+    function (n: number) {
+      return n
+    },
+    // @ts-expect-error: `replay` must not be set.
+    { replay: true },
+  )
+})